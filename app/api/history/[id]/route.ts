@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { getHistoryStore, normalizeSnap, parseRequest, savedSnapSchema, snapPatchSchema } from "@/lib/history-store"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+const notFound = () => NextResponse.json({ ok: false, error: "Snap not found" }, { status: 404 })
+const failed = () => NextResponse.json({ ok: false, error: "Failed to persist history" }, { status: 500 })
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const snap = await getHistoryStore().get(params.id)
+    return snap ? NextResponse.json({ ok: true, snap }) : notFound()
+  } catch {
+    return NextResponse.json({ ok: false, error: "Failed to read history" }, { status: 500 })
+  }
+}
+
+// Replace a snap, or create it when it does not exist yet
+export async function PUT(request: Request, { params }: RouteContext) {
+  const parsed = await parseRequest(request, savedSnapSchema.omit({ id: true }))
+  if (!parsed.ok) return parsed.response
+  const snap = normalizeSnap({ id: params.id, ...parsed.data })
+  try {
+    const store = getHistoryStore()
+    await store.upsert([snap])
+    // The stored copy carries the version the store assigned
+    return NextResponse.json({ ok: true, snap: await store.get(snap.id) })
+  } catch {
+    return failed()
+  }
+}
+
+// Change some fields of an existing snap
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const parsed = await parseRequest(request, snapPatchSchema)
+  if (!parsed.ok) return parsed.response
+  try {
+    const snap = await getHistoryStore().update(params.id, parsed.data)
+    return snap ? NextResponse.json({ ok: true, snap }) : notFound()
+  } catch {
+    return failed()
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    return (await getHistoryStore().remove([params.id])) > 0 ? NextResponse.json({ ok: true }) : notFound()
+  } catch {
+    return failed()
+  }
+}
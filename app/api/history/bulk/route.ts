@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getHistoryStore, parseRequest, savedSnapSchema } from "@/lib/history-store"
+
+const bulkSchema = z
+  .object({
+    // Added, or replaced when the id exists
+    upsert: z.array(savedSnapSchema).max(1000).default([]),
+    delete: z.array(z.string().min(1).max(100)).max(1000).default([]),
+  })
+  .strict()
+
+// Several changes in one request: deletions first, then upserts
+export async function POST(request: Request) {
+  const parsed = await parseRequest(request, bulkSchema)
+  if (!parsed.ok) return parsed.response
+  const store = getHistoryStore()
+  try {
+    const deleted = parsed.data.delete.length > 0 ? await store.remove(parsed.data.delete) : 0
+    if (parsed.data.upsert.length > 0) await store.upsert(parsed.data.upsert)
+    return NextResponse.json({ ok: true, upserted: parsed.data.upsert.length, deleted })
+  } catch {
+    return NextResponse.json({ ok: false, error: "Failed to persist history" }, { status: 500 })
+  }
+}
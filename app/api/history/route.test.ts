@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { MemoryHistoryStore, type HistoryStore } from "@/lib/history-store"
+import { TOMBSTONE_TTL } from "@/lib/history-store/schema"
+import type { SavedSnap } from "@/lib/storage"
+import { DELETE as deleteSnap, GET as getSnap, PATCH, PUT } from "./[id]/route"
+import { POST as bulk } from "./bulk/route"
+import { DELETE as clear, GET as list, POST as add } from "./route"
+import { POST as sync } from "./sync/route"
+
+const snap = (id: string, timestamp: number): SavedSnap => ({ id, text: `Snap ${id}`, timestamp, title: id, tags: [] })
+
+const request = (method: string, body?: unknown) =>
+  new Request("http://localhost/api/history", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  })
+
+const context = (id: string) => ({ params: { id } })
+
+describe("/api/history routes", () => {
+  let store: HistoryStore
+
+  beforeEach(() => {
+    // getHistoryStore() returns the store on globalThis when there is one
+    store = new MemoryHistoryStore()
+    ;(globalThis as { historyStore?: HistoryStore }).historyStore = store
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("adds snaps and lists them newest first", async () => {
+    expect((await add(request("POST", snap("a", 1)))).status).toBe(200)
+    const res = await add(request("POST", snap("b", 2)))
+    expect(await res.json()).toMatchObject({ ok: true, snap: { id: "b", revision: 1 } })
+    expect(await (await list()).json()).toMatchObject({ snaps: [{ id: "b" }, { id: "a" }] })
+  })
+
+  it("rejects invalid JSON and invalid snaps", async () => {
+    expect(await (await add(request("POST", "{"))).json()).toEqual({ ok: false, error: "Invalid JSON" })
+    const res = await add(request("POST", { id: "a", text: "", timestamp: 1 }))
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ ok: false, error: "Invalid payload" })
+    expect(await store.list()).toEqual([])
+  })
+
+  it("reads, replaces, patches and deletes one snap", async () => {
+    await store.upsert([snap("a", 1)])
+
+    expect(await (await getSnap(request("GET"), context("a"))).json()).toMatchObject({ ok: true, snap: { id: "a" } })
+    expect((await getSnap(request("GET"), context("missing"))).status).toBe(404)
+
+    const put = await PUT(request("PUT", { text: "Replaced", timestamp: 1 }), context("a"))
+    expect(await put.json()).toMatchObject({ ok: true, snap: { text: "Replaced", revision: 2 } })
+
+    const patch = await PATCH(request("PATCH", { title: "Renamed" }), context("a"))
+    expect(await patch.json()).toMatchObject({ ok: true, snap: { text: "Replaced", title: "Renamed", revision: 3 } })
+    expect((await PATCH(request("PATCH", { title: "x" }), context("missing"))).status).toBe(404)
+
+    expect((await deleteSnap(request("DELETE"), context("a"))).status).toBe(200)
+    expect((await deleteSnap(request("DELETE"), context("a"))).status).toBe(404)
+    expect(await store.list()).toEqual([])
+  })
+
+  it("applies bulk deletions before upserts", async () => {
+    await store.upsert([snap("a", 1), snap("b", 2)])
+    const res = await bulk(request("POST", { delete: ["a", "b"], upsert: [snap("b", 3)] }))
+    expect(await res.json()).toEqual({ ok: true, upserted: 1, deleted: 2 })
+    expect((await store.list()).map((s) => s.id)).toEqual(["b"])
+  })
+
+  it("clears the history, leaving tombstones for sync", async () => {
+    await store.upsert([snap("a", 1), snap("b", 2)])
+    expect(await (await clear()).json()).toEqual({ ok: true, deleted: 2 })
+    expect(await store.list()).toEqual([])
+    expect(await store.records()).toEqual([
+      expect.objectContaining({ id: "a", deleted: true }),
+      expect.objectContaining({ id: "b", deleted: true }),
+    ])
+  })
+
+  it("merges synced changes and answers with every record", async () => {
+    await store.upsert([snap("a", 1)])
+    const res = await sync(
+      request("POST", { changes: [{ ...snap("b", 2), revision: 1, updatedAt: 2 }, { id: "a", timestamp: 1, revision: 2, updatedAt: 5, deleted: true }] }),
+    )
+    const body = (await res.json()) as { ok: boolean; records: Array<{ id: string; deleted?: boolean }> }
+    expect(body.ok).toBe(true)
+    expect(body.records).toEqual(
+      expect.arrayContaining([expect.objectContaining({ id: "a", deleted: true }), expect.objectContaining({ id: "b" })]),
+    )
+    expect((await store.list()).map((s) => s.id)).toEqual(["b"])
+  })
+
+  it("answers a sync with what changed since the client's cursor", async () => {
+    await store.upsert([snap("a", 1), snap("b", 2)])
+    const first = (await (await sync(request("POST", {}))).json()) as { records: Array<{ id: string }>; cursor: number }
+    expect(first.records.map((r) => r.id).sort()).toEqual(["a", "b"])
+    expect(first.cursor).toBe(2)
+
+    await store.update("b", { title: "changed" })
+    const next = (await (await sync(request("POST", { since: first.cursor }))).json()) as typeof first
+    expect(next.records).toEqual([expect.objectContaining({ id: "b", title: "changed", sequence: 3 })])
+    expect(next.cursor).toBe(3)
+
+    // Nothing new, but the server's version of a sent record always comes back so the client can clear it
+    const stale = { ...snap("a", 1), revision: 0, updatedAt: 0 }
+    const echo = (await (await sync(request("POST", { since: next.cursor, changes: [stale] }))).json()) as typeof first
+    expect(echo.records).toEqual([expect.objectContaining({ id: "a", revision: 1 })])
+    expect(echo.cursor).toBe(3)
+
+    // A cursor from before the server's history was reset gets everything
+    const reset = (await (await sync(request("POST", { since: 99 }))).json()) as typeof first
+    expect(reset.records).toHaveLength(2)
+  })
+
+  it("drops expired tombstones on the next write", async () => {
+    const old = Date.now() - TOMBSTONE_TTL - 1
+    store = new MemoryHistoryStore([{ id: "gone", timestamp: 1, revision: 2, updatedAt: old, deleted: true }])
+    ;(globalThis as { historyStore?: HistoryStore }).historyStore = store
+    // Even when the write is that same expired tombstone, it survives long enough to reach its sender
+    const res = await sync(request("POST", { changes: [{ id: "late", timestamp: 1, revision: 2, updatedAt: old, deleted: true }] }))
+    const body = (await res.json()) as { records: Array<{ id: string }> }
+    expect(body.records.map((r) => r.id)).toEqual(["late"])
+
+    await add(request("POST", snap("a", 1)))
+    expect((await store.records()).map((r) => r.id)).toEqual(["a"])
+  })
+
+  it("keeps the cursor moving forward when the newest record was an expired tombstone", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    await store.upsert([snap("a", 1)])
+    await store.remove(["a"])
+    const { cursor } = (await (await sync(request("POST", {}))).json()) as { cursor: number }
+    vi.setSystemTime(Date.now() + TOMBSTONE_TTL + 1)
+    await add(request("POST", snap("b", 2)))
+
+    const next = (await (await sync(request("POST", { since: cursor }))).json()) as { records: Array<{ id: string }>; cursor: number }
+    expect(next.records.map((r) => r.id)).toEqual(["b"])
+    expect(next.cursor).toBe(cursor + 1)
+  })
+
+  it("merges the valid changes of a sync and names the invalid ones", async () => {
+    const res = await sync(
+      request("POST", {
+        changes: [snap("good", 1), { ...snap("too-many-tags", 2), tags: Array.from({ length: 51 }, (_, i) => `t${i}`) }, { text: "no id" }],
+      }),
+    )
+    expect(res.status).toBe(200)
+    const body = (await res.json()) as { records: Array<{ id: string }>; rejected: string[] }
+    expect(body.rejected).toEqual(["too-many-tags"])
+    expect(body.records.map((r) => r.id)).toEqual(["good"])
+  })
+})
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getHistoryStore, parseRequest, syncRecordSchema } from "@/lib/history-store"
+import type { SyncRecord } from "@/lib/snap-versions"
+
+const syncSchema = z
+  .object({
+    // The client's outbox: snaps and tombstones changed since its last successful sync. Each record is
+    // validated on its own below, so one bad entry cannot hold back the rest.
+    changes: z.array(z.unknown()).max(500).default([]),
+    // The cursor from the client's previous sync; 0 for everything
+    since: z.number().int().nonnegative().default(0),
+  })
+  .strict()
+
+// Enough of a record to name it in `rejected`
+const recordIdSchema = z.object({ id: z.string() })
+
+// Two-way sync: merge the client's valid changes (the newer version of each snap wins, see
+// lib/snap-versions.ts) and answer with the records changed since its cursor, tombstones included, for
+// the client to merge the same way, and the new cursor. `rejected` lists the ids of changes that failed
+// validation; the client drops them from its outbox.
+export async function POST(request: Request) {
+  const parsed = await parseRequest(request, syncSchema)
+  if (!parsed.ok) return parsed.response
+  const changes: SyncRecord[] = []
+  const rejected: string[] = []
+  for (const change of parsed.data.changes) {
+    const record = syncRecordSchema.safeParse(change)
+    if (record.success) {
+      changes.push(record.data)
+      continue
+    }
+    const named = recordIdSchema.safeParse(change)
+    if (named.success) rejected.push(named.data.id)
+  }
+  try {
+    const { records, cursor } = await getHistoryStore().merge(changes, parsed.data.since)
+    return NextResponse.json({ ok: true, records, cursor, rejected })
+  } catch {
+    return NextResponse.json({ ok: false, error: "Failed to persist history" }, { status: 500 })
+  }
+}
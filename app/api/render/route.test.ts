@@ -0,0 +1,92 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { ImageGenerator, type ImageOptions } from "@/lib/image-generator"
+import { createServerCanvas } from "@/lib/server-canvas"
+import { POST } from "./route"
+
+const request = (body: unknown) =>
+  new Request("http://localhost/api/render", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  })
+
+const TEXT = "Render me on the server.\n\nA second paragraph, long enough to wrap across a couple of lines of the card."
+
+const OPTIONS: Partial<ImageOptions> = {
+  width: 640,
+  height: 400,
+  fontSize: 20,
+  fontFamily: '"JetBrains Mono", monospace',
+  textAlign: "justify",
+  chrome: "terminal",
+  chromeTitle: "~/snap",
+}
+
+describe("POST /api/render", () => {
+  it("renders a PNG", async () => {
+    const res = await POST(request({ text: TEXT, options: { ...OPTIONS, format: "png", scale: 2 } }))
+    expect(res.status).toBe(200)
+    expect(res.headers.get("Content-Type")).toBe("image/png")
+    const bytes = new Uint8Array(await res.arrayBuffer())
+    expect([...bytes.subarray(1, 4)]).toEqual([0x50, 0x4e, 0x47])
+    // IHDR: the card at twice the size
+    const view = new DataView(bytes.buffer)
+    expect([view.getUint32(16), view.getUint32(20)]).toEqual([1280, 800])
+  })
+
+  it("rejects invalid JSON and payloads that fail the schema", async () => {
+    expect(await (await POST(request("{"))).json()).toEqual({ ok: false, error: "Invalid JSON" })
+    for (const body of [
+      { text: "" },
+      { text: TEXT, options: { width: 50 } },
+      { text: TEXT, options: { format: "bmp" } },
+      // Unknown keys are refused rather than ignored
+      { text: TEXT, options: { avatarPath: "/etc/passwd" } },
+      { text: TEXT, options: { footer: { name: "A", avatarUrl: "https://example.com/a.png" } } },
+    ]) {
+      const res = await POST(request(body))
+      expect(res.status).toBe(400)
+      expect(await res.json()).toEqual({ ok: false, error: "Invalid payload" })
+    }
+  })
+
+  it("answers 413 when a render would exceed the limits", async () => {
+    const res = await POST(request({ text: TEXT, options: { width: 4096, height: 4096, scale: 4 } }))
+    expect(res.status).toBe(413)
+    expect(await res.json()).toMatchObject({ ok: false, error: expect.any(String) })
+  })
+
+  it("answers 422 when the text cannot fit a strict card", async () => {
+    const res = await POST(request({ text: "word ".repeat(2000).trim(), options: { width: 200, height: 200, strict: true } }))
+    expect(res.status).toBe(422)
+    expect(await res.json()).toMatchObject({ ok: false, error: expect.stringContaining("does not fit") })
+  })
+
+  describe("layout", () => {
+    let client: ImageGenerator
+
+    beforeAll(async () => {
+      // The generator the editor uses, on the canvas tests can create; the route builds its own
+      client = new ImageGenerator(await createServerCanvas())
+    })
+
+    it("places every run where the client generator does for the same options", async () => {
+      const res = await POST(request({ text: TEXT, options: { ...OPTIONS, format: "svg" } }))
+      expect(res.headers.get("Content-Type")).toBe("image/svg+xml")
+      const svg = await res.text()
+      const rendered = [...svg.matchAll(/<text xml:space="preserve" x="([^"]*)" y="([^"]*)"[^>]*>([^<]*)<\/text>/g)].map(
+        ([, x, y, text]) => ({ text, x: Number(x), baseline: Number(y) }),
+      )
+
+      const layout = client.layout(TEXT, OPTIONS)
+      const round = (value: number) => Math.round(value * 100) / 100
+      const expected = layout.lines
+        .flatMap((line) => line.runs)
+        .filter((run) => run.text.trim())
+        .map((run) => ({ text: run.text, x: round(run.x), baseline: round(run.baseline) }))
+      expect(layout.lines.length).toBeGreaterThan(2)
+      // Body text comes after the chrome title
+      expect(rendered.slice(-expected.length)).toEqual(expected)
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { ImageGenerator, RenderLimitError, TextOverflowError, type ImageOptions, type RenderLimits } from "@/lib/image-generator"
+import { dataUrlToBytes } from "@/lib/canvas"
+import { layoutTemplateSchema } from "@/lib/layout-template"
+import { snapMetadataSchema } from "@/lib/snap-metadata"
+import { MissingFontsError, createServerCanvas, loadServerImage } from "@/lib/server-canvas"
+
+export const runtime = "nodejs"
+
+// Bounds memory and CPU per request: a 1080×1080 card at 4x is about 18.7M pixels, and the schema alone
+// would allow 4096×4096 at 4x, or a canvas as tall as 10000 characters of text, or 1800 animation frames
+const RENDER_LIMITS: RenderLimits = {
+  maxPixels: 24_000_000,
+  maxFrames: 600,
+  maxAnimationPixels: 400_000_000,
+}
+
+const CONTENT_TYPES: Record<ImageOptions["format"], string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  pdf: "application/pdf",
+  svg: "image/svg+xml",
+}
+
+// Typewriter animation; WebM needs MediaRecorder, so the server only encodes GIFs
+const animationSchema = z
+  .object({
+    format: z.literal("gif"),
+    speed: z.number().min(1).max(200),
+    hold: z.number().min(0).max(30),
+    duration: z.number().min(0.5).max(60),
+    fps: z.number().int().min(1).max(30),
+  })
+  .partial()
+  .strict()
+
+const colorSchema = z.string().max(64)
+
+const syntaxColorsSchema = z
+  .object({
+    keyword: colorSchema,
+    string: colorSchema,
+    comment: colorSchema,
+    number: colorSchema,
+    function: colorSchema,
+    type: colorSchema,
+    punctuation: colorSchema,
+  })
+  .partial()
+  .strict()
+
+const footerSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    handle: z.string().max(100).optional(),
+    // Avatars must be inlined; the server never reads files or fetches URLs for a render
+    avatarUrl: z.string().startsWith("data:image/").max(2_000_000).optional(),
+    date: z.string().max(100).optional(),
+  })
+  .strict()
+
+const backgroundSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("linear"), angle: z.number().min(-360).max(360), colors: z.array(colorSchema).min(1).max(8) }).strict(),
+  z.object({ kind: z.literal("radial"), colors: z.array(colorSchema).min(1).max(8) }).strict(),
+  z.object({ kind: z.literal("pattern"), pattern: z.enum(["dots", "grid", "noise"]), color: colorSchema, ink: colorSchema }).strict(),
+  z
+    .object({
+      kind: z.literal("photo"),
+      // Inlined like avatars; never a path or remote URL
+      src: z.string().startsWith("data:image/").max(8_000_000),
+      blur: z.number().min(0).max(100),
+      dim: z.number().min(0).max(1),
+    })
+    .strict(),
+])
+
+const optionsSchema = z
+  .object({
+    format: z.enum(["png", "jpeg", "webp", "pdf", "svg"]),
+    quality: z.number().min(0).max(1),
+    width: z.number().int().min(100).max(4096),
+    height: z.number().int().min(100).max(4096),
+    scale: z.number().min(0.5).max(4),
+    backgroundColor: colorSchema,
+    textColor: colorSchema,
+    fontFamily: z.string().max(300),
+    fontSize: z.number().min(6).max(200),
+    padding: z.number().min(0).max(400),
+    borderRadius: z.number().min(0).max(400),
+    textAlign: z.enum(["left", "center", "right", "justify"]),
+    lineHeight: z.number().min(0.8).max(4),
+    letterSpacing: z.number().min(-0.2).max(1),
+    paragraphSpacing: z.number().min(0).max(4),
+    fontWeight: z.number().int().min(100).max(900),
+    autoFit: z.boolean(),
+    strict: z.boolean(),
+    cardColor: colorSchema,
+    syntaxColors: syntaxColorsSchema,
+    footer: footerSchema,
+    background: backgroundSchema,
+    cardStyle: z.enum(["solid", "glass"]),
+    chrome: z.enum(["macos", "windows", "terminal", "browser", "tweet", "none"]),
+    chromeTitle: z.string().max(100),
+    template: layoutTemplateSchema,
+    metadata: snapMetadataSchema,
+  })
+  .partial()
+  .strict()
+
+const payloadSchema = z.object({
+  text: z.string().min(1).max(10000),
+  options: optionsSchema.optional(),
+  animation: animationSchema.optional(),
+})
+
+export async function POST(request: Request) {
+  let payload: z.infer<typeof payloadSchema>
+  try {
+    const parsed = payloadSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ ok: false, error: "Invalid payload" }, { status: 400 })
+    }
+    payload = parsed.data
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 })
+  }
+
+  try {
+    const options = payload.options ?? {}
+    const generator = new ImageGenerator(await createServerCanvas(), loadServerImage, RENDER_LIMITS)
+    if (payload.animation) {
+      const gifUrl = await generator.generateTypewriter(payload.text, options, payload.animation)
+      return new NextResponse(dataUrlToBytes(gifUrl), {
+        headers: {
+          "Content-Type": "image/gif",
+          "Cache-Control": "no-store",
+        },
+      })
+    }
+    const dataUrl = await generator.generateImage(payload.text, options)
+    const format = options.format ?? "png"
+    return new NextResponse(dataUrlToBytes(dataUrl), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (e) {
+    if (e instanceof TextOverflowError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 422 })
+    }
+    if (e instanceof RenderLimitError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 413 })
+    }
+    if (e instanceof MissingFontsError) {
+      console.error(e.message)
+      return NextResponse.json({ ok: false, error: e.message }, { status: 500 })
+    }
+    return NextResponse.json({ ok: false, error: "Failed to render image" }, { status: 500 })
+  }
+}
@@ -1,26 +1,35 @@
 "use client"
 
-import { useState, useRef, useEffect, useLayoutEffect } from "react"
+import { useState, useRef, useEffect, useLayoutEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Card } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Type, AlignLeft, AlignCenter, AlignRight } from "lucide-react"
-// Image generation handled in download menu
-
-const FONT_OPTIONS = [
-  { id: "sfmono", name: "SF Mono", css: '"SF Mono", "Monaco", "Inconsolata", "Roboto Mono", monospace' },
-  { id: "courier", name: "Courier New", css: '"Courier New", "Courier", monospace' },
-  { id: "monaco", name: "Monaco", css: '"Monaco", "Menlo", "Ubuntu Mono", monospace' },
-  { id: "fira", name: "Fira Code", css: 'var(--font-fira-code), monospace' },
-  { id: "jetbrains", name: "JetBrains Mono", css: 'var(--font-jetbrains-mono), monospace' },
-  { id: "sourcecode", name: "Source Code Pro", css: 'var(--font-source-code-pro), monospace' },
-  { id: "spacemono", name: "Space Mono", css: 'var(--font-space-mono), monospace' },
-  { id: "inconsolata", name: "Inconsolata", css: 'var(--font-inconsolata), monospace' },
-  { id: "ibmplex", name: "IBM Plex Mono", css: 'var(--font-ibm-plex-mono), monospace' },
-  { id: "dmmono", name: "DM Mono", css: 'var(--font-dm-mono), monospace' },
-  { id: "robotomono", name: "Roboto Mono", css: '"Roboto Mono", "Courier New", monospace' },
-]
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Type, AlignLeft, AlignCenter, AlignRight, AlignJustify, Baseline, ImageIcon, AppWindow, LayoutTemplate as LayoutTemplateIcon, Download } from "lucide-react"
+import { toast } from "sonner"
+import { CardLayoutView } from "@/components/card-layout-view"
+import { DownloadMenu } from "@/components/download-menu"
+import { BackgroundLayer } from "@/components/background-layer"
+import { WindowChrome } from "@/components/window-chrome"
+import { CHROME_STYLES, DEFAULT_CHROME_TITLE, type ChromeId } from "@/lib/chrome"
+import { GLASS_BLUR, GLASS_OPACITY, withAlpha, type BackgroundFill, type BackgroundPattern } from "@/lib/backgrounds"
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE, parseLayoutTemplate, type LayoutTemplate } from "@/lib/layout-template"
+import { SYNTAX_PALETTES } from "@/lib/code-highlight"
+import { readSnapMetadata, type SnapRenderSettings } from "@/lib/snap-metadata"
+import { type SaveResult, SnapStorage, evictionMessage } from "@/lib/storage"
+import {
+  BUILT_IN_FONTS,
+  CUSTOM_FONT_ACCEPT,
+  customFontOption,
+  loadCustomFontFile,
+  parseCustomFonts,
+  registerCustomFont,
+  type CustomFont,
+} from "@/lib/fonts"
+import { ImageGenerator, type CardLayout, type ImageOptions, type TextAlign } from "@/lib/image-generator"
+import { editorImageOptions, exportOptions, fitEditorCard, type CardFit } from "@/lib/editor-layout"
 
 const DEFAULT_FONT_SIZE = 16
 
@@ -35,21 +44,72 @@ const SIZE_OPTIONS = [
   { id: "32", name: "32", px: 32 },
 ]
 
+// Body typography; the card is laid out (and the textarea styled) with the same values
+type Typography = Required<Pick<ImageOptions, "lineHeight" | "letterSpacing" | "paragraphSpacing" | "fontWeight">>
+
+const DEFAULT_TYPOGRAPHY: Typography = { lineHeight: 1.6, letterSpacing: 0, paragraphSpacing: 0.5, fontWeight: 400 }
+
+const WEIGHT_OPTIONS = [
+  { value: 300, name: "Light" },
+  { value: 400, name: "Regular" },
+  { value: 500, name: "Medium" },
+  { value: 600, name: "Semibold" },
+  { value: 700, name: "Bold" },
+]
+
+// Backgrounds drawn instead of the theme's flat color. Patterns take their colors from the theme;
+// "photo" uses the uploaded image.
+const BACKGROUND_OPTIONS: Array<{ id: string; name: string; fill?: BackgroundFill; pattern?: BackgroundPattern }> = [
+  { id: "flat", name: "Theme color" },
+  { id: "sunset", name: "Sunset", fill: { kind: "linear", angle: 135, colors: ["#FF9A8B", "#FF6A88", "#FF99AC"] } },
+  { id: "ocean", name: "Ocean", fill: { kind: "linear", angle: 160, colors: ["#2E3192", "#1BFFFF"] } },
+  { id: "aurora", name: "Aurora", fill: { kind: "radial", colors: ["#A8FF78", "#78FFD6", "#3A7BD5"] } },
+  { id: "dots", name: "Dots", pattern: "dots" },
+  { id: "grid", name: "Grid", pattern: "grid" },
+  { id: "noise", name: "Noise", pattern: "noise" },
+  { id: "photo", name: "Photo" },
+]
+
+// Alignment follows each paragraph's direction: "left" is the start edge, so it mirrors in right-to-left text.
+// CSS justify, like ImageGenerator, leaves the last line of a paragraph at the start edge.
+const LOGICAL_ALIGN = { left: "start", center: "center", right: "end", justify: "justify" } as const
+
 export default function SnapEditor() {
   const [text, setText] = useState("")
   const [selectedFontId, setSelectedFontId] = useState<string>("jetbrains")
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([])
   const [selectedThemeId, setSelectedThemeId] = useState<string>("brown")
   const [showFontSelector, setShowFontSelector] = useState(false)
   const [showThemeSelector, setShowThemeSelector] = useState(false)
   const [showSizeSelector, setShowSizeSelector] = useState(false)
   const [selectedSizeId, setSelectedSizeId] = useState<string>("16")
   const [showAlignSelector, setShowAlignSelector] = useState(false)
-  const [selectedAlign, setSelectedAlign] = useState<"left" | "center" | "right">("center")
+  const [selectedAlign, setSelectedAlign] = useState<TextAlign>("center")
+  const [showTypographySelector, setShowTypographySelector] = useState(false)
+  const [typography, setTypography] = useState<Typography>(DEFAULT_TYPOGRAPHY)
+  const [effectiveFontPx, setEffectiveFontPx] = useState<number>(DEFAULT_FONT_SIZE)
+  const [layout, setLayout] = useState<CardLayout | null>(null)
+  const [cardFit, setCardFit] = useState<CardFit | null>(null)
+  const [isEditing, setIsEditing] = useState(true)
+  const [showBackgroundSelector, setShowBackgroundSelector] = useState(false)
+  const [selectedBackgroundId, setSelectedBackgroundId] = useState<string>("flat")
+  const [photo, setPhoto] = useState<{ src: string; blur: number; dim: number }>({ src: "", blur: 8, dim: 0.3 })
+  const [glassCard, setGlassCard] = useState(false)
+  const [showChromeSelector, setShowChromeSelector] = useState(false)
+  const [selectedChrome, setSelectedChrome] = useState<ChromeId>("macos")
+  const [chromeTitle, setChromeTitle] = useState(DEFAULT_CHROME_TITLE)
+  const [showTemplateSelector, setShowTemplateSelector] = useState(false)
+  const [customTemplates, setCustomTemplates] = useState<LayoutTemplate[]>([])
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>(DEFAULT_TEMPLATE.id)
+  const [showDownloadMenu, setShowDownloadMenu] = useState(false)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const cardRef = useRef<HTMLDivElement>(null)
+  const generatorRef = useRef<ImageGenerator | null>(null)
   
 
+  // Uploaded fonts are listed after the built-in next/font faces
+  const FONT_OPTIONS = [...BUILT_IN_FONTS, ...customFonts.map(customFontOption)]
   const selectedFontCss = FONT_OPTIONS.find((f) => f.id === selectedFontId)?.css || FONT_OPTIONS[0].css
   const selectedFontSize = SIZE_OPTIONS.find((s) => s.id === selectedSizeId)?.px || DEFAULT_FONT_SIZE
 
@@ -60,6 +120,7 @@ export default function SnapEditor() {
       backgroundColor: "#0F0F0F",
       cardColor: "#1A1A1A",
       textColor: "#FFFFFF",
+      syntaxColors: SYNTAX_PALETTES.dark,
     },
     {
       id: "white",
@@ -67,6 +128,7 @@ export default function SnapEditor() {
       backgroundColor: "#FFFFFF",
       cardColor: "#F5F5F5",
       textColor: "#000000",
+      syntaxColors: SYNTAX_PALETTES.light,
     },
     {
       id: "brown",
@@ -74,33 +136,132 @@ export default function SnapEditor() {
       backgroundColor: "#F3EBDD",
       cardColor: "#EFE3CF",
       textColor: "#000000",
+      syntaxColors: SYNTAX_PALETTES.light,
     },
   ] as const
 
-  const selectedTheme = THEME_OPTIONS.find((t) => t.id === selectedThemeId) || THEME_OPTIONS[2]
+  const baseTheme = THEME_OPTIONS.find((t) => t.id === selectedThemeId) || THEME_OPTIONS[2]
+
+  // The layout template can pin colors, chrome and alignment; what it declares wins, as in the exporter
+  const allTemplates = [...BUILT_IN_TEMPLATES, ...customTemplates]
+  const selectedTemplate = allTemplates.find((t) => t.id === selectedTemplateId) || DEFAULT_TEMPLATE
+  const selectedTheme = {
+    ...baseTheme,
+    backgroundColor: selectedTemplate.colors.background ?? baseTheme.backgroundColor,
+    cardColor: selectedTemplate.colors.card ?? baseTheme.cardColor,
+    textColor: selectedTemplate.colors.text ?? baseTheme.textColor,
+  }
+  const activeChrome = selectedTemplate.chrome.style ?? selectedChrome
+  const activeChromeTitle = selectedTemplate.chrome.title ?? (chromeTitle || DEFAULT_CHROME_TITLE)
+  const activeAlign = selectedTemplate.body.align ?? selectedAlign
+
+  // Same fill the exporter receives as ImageOptions.background
+  const selectedBackground = BACKGROUND_OPTIONS.find((b) => b.id === selectedBackgroundId) || BACKGROUND_OPTIONS[0]
+  const backgroundFill: BackgroundFill | undefined = selectedBackground.pattern
+    ? {
+        kind: "pattern",
+        pattern: selectedBackground.pattern,
+        color: selectedTheme.backgroundColor,
+        ink: withAlpha(selectedTheme.textColor, 0.12),
+      }
+    : selectedBackground.id === "photo"
+      ? photo.src
+        ? { kind: "photo", ...photo }
+        : undefined
+      : selectedBackground.fill
+
+  // Memoized on the state the card comes from, so the layout effect reruns exactly when the card would
+  // look different
+  const imageOptions = useMemo(
+    () =>
+      editorImageOptions({
+        fontFamily: selectedFontCss,
+        theme: selectedTheme,
+        background: backgroundFill,
+        glass: glassCard,
+        chrome: activeChrome,
+        chromeTitle: activeChromeTitle,
+        align: selectedAlign,
+        typography,
+        template: selectedTemplate,
+      }),
+    // The theme, fill and template objects are rebuilt every render; list the state they come from
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [selectedFontCss, selectedThemeId, selectedTemplateId, customTemplates, selectedBackgroundId, photo, glassCard, activeChrome, activeChromeTitle, selectedAlign, typography],
+  )
+  const layoutOptions = exportOptions(imageOptions, cardFit)
+
+  // Show the laid-out card whenever the textarea is not being typed in
+  const showPreview = !isEditing && text.trim() !== "" && layout !== null
 
   // Optional autosave disabled when history UI removed
 
-  // Load persisted preferred font on mount
+  // Keep the snap history in sync with the server while the editor is open (no-op unless server
+  // history is enabled); snaps a sync pushes out of the retention limit are reported, never dropped silently
+  useEffect(
+    () =>
+      SnapStorage.startSync((evicted) => {
+        if (evicted.length > 0) toast.info(evictionMessage(evicted))
+      }),
+    [],
+  )
+
+  // Load persisted custom fonts and the preferred font on mount. Uploaded faces are registered before
+  // they are listed, so the card is never laid out with a font that is still loading.
   useEffect(() => {
+    let savedFont: string | null = null
+    let fonts: CustomFont[] = []
     try {
-      const savedFont = localStorage.getItem("snap-editor-selected-font")
-      if (savedFont && FONT_OPTIONS.some((f) => f.id === savedFont)) {
+      savedFont = localStorage.getItem("snap-editor-selected-font")
+      fonts = parseCustomFonts(JSON.parse(localStorage.getItem("snap-editor-custom-fonts") || "[]"))
+    } catch {}
+    let active = true
+    void Promise.all(fonts.map((font) => registerCustomFont(font).then(() => font, () => null))).then((loaded) => {
+      if (!active) return
+      const usable = loaded.filter((font): font is CustomFont => font !== null)
+      setCustomFonts(usable)
+      if (savedFont && [...BUILT_IN_FONTS, ...usable.map(customFontOption)].some((f) => f.id === savedFont)) {
         setSelectedFontId(savedFont)
       }
-    } catch {}
+    })
+    return () => {
+      active = false
+    }
   }, [])
 
   // Load persisted alignment
   useEffect(() => {
     try {
-      const savedAlign = localStorage.getItem("snap-editor-align") as any
-      if (savedAlign === "left" || savedAlign === "center" || savedAlign === "right") {
+      const savedAlign = localStorage.getItem("snap-editor-align")
+      if (savedAlign === "left" || savedAlign === "center" || savedAlign === "right" || savedAlign === "justify") {
         setSelectedAlign(savedAlign)
       }
     } catch {}
   }, [])
 
+  // Load persisted typography, keeping defaults for anything missing or malformed
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem("snap-editor-typography") || "null")
+      if (saved && typeof saved === "object") {
+        const pick = (key: keyof Typography) => (typeof saved[key] === "number" ? saved[key] : DEFAULT_TYPOGRAPHY[key])
+        setTypography({
+          lineHeight: pick("lineHeight"),
+          letterSpacing: pick("letterSpacing"),
+          paragraphSpacing: pick("paragraphSpacing"),
+          fontWeight: pick("fontWeight"),
+        })
+      }
+    } catch {}
+  }, [])
+
+  // Persist typography when it changes
+  useEffect(() => {
+    try {
+      localStorage.setItem("snap-editor-typography", JSON.stringify(typography))
+    } catch {}
+  }, [typography])
+
   // Load persisted preferred size on mount
   useEffect(() => {
     try {
@@ -150,83 +311,245 @@ export default function SnapEditor() {
     } catch {}
   }, [selectedThemeId])
 
+  // Load persisted background on mount
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem("snap-editor-background") || "null")
+      if (saved && BACKGROUND_OPTIONS.some((b) => b.id === saved.id)) {
+        setSelectedBackgroundId(saved.id)
+        setGlassCard(saved.glass === true)
+        if (typeof saved.blur === "number" && typeof saved.dim === "number") {
+          setPhoto({ src: localStorage.getItem("snap-editor-background-photo") || "", blur: saved.blur, dim: saved.dim })
+        }
+      }
+    } catch {}
+  }, [])
+
+  // Persist background when it changes; the photo is stored separately since it may exceed the quota
+  useEffect(() => {
+    try {
+      localStorage.setItem(
+        "snap-editor-background",
+        JSON.stringify({ id: selectedBackgroundId, glass: glassCard, blur: photo.blur, dim: photo.dim }),
+      )
+    } catch {}
+  }, [selectedBackgroundId, glassCard, photo.blur, photo.dim])
+
+  useEffect(() => {
+    try {
+      if (photo.src) localStorage.setItem("snap-editor-background-photo", photo.src)
+    } catch {}
+  }, [photo.src])
+
+  // Load persisted window chrome on mount
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem("snap-editor-chrome") || "null")
+      if (saved && saved.id in CHROME_STYLES) {
+        setSelectedChrome(saved.id)
+        if (typeof saved.title === "string") setChromeTitle(saved.title)
+      }
+    } catch {}
+  }, [])
+
+  // Persist window chrome when it changes
+  useEffect(() => {
+    try {
+      localStorage.setItem("snap-editor-chrome", JSON.stringify({ id: selectedChrome, title: chromeTitle }))
+    } catch {}
+  }, [selectedChrome, chromeTitle])
+
+  // Load persisted custom templates and the selected template on mount
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem("snap-editor-templates") || "[]")
+      // Stored templates are re-validated; anything that no longer parses is dropped
+      const valid = Array.isArray(saved)
+        ? saved.flatMap((data) => {
+            const parsed = parseLayoutTemplate(data)
+            return parsed.ok ? [parsed.template] : []
+          })
+        : []
+      setCustomTemplates(valid)
+      const savedId = localStorage.getItem("snap-editor-template")
+      if (savedId && [...BUILT_IN_TEMPLATES, ...valid].some((t) => t.id === savedId)) setSelectedTemplateId(savedId)
+    } catch {}
+  }, [])
+
+  // Persist templates when they change
+  useEffect(() => {
+    try {
+      localStorage.setItem("snap-editor-templates", JSON.stringify(customTemplates))
+      localStorage.setItem("snap-editor-template", selectedTemplateId)
+    } catch {}
+  }, [customTemplates, selectedTemplateId])
+
+  const handleTemplateUpload = async (file: File | undefined) => {
+    if (!file) return
+    let data: unknown
+    try {
+      data = JSON.parse(await file.text())
+    } catch {
+      toast.error(`${file.name} is not valid JSON`)
+      return
+    }
+    const parsed = parseLayoutTemplate(data)
+    if (!parsed.ok) {
+      toast.error(`Invalid template: ${parsed.error}`)
+      return
+    }
+    const { template } = parsed
+    if (BUILT_IN_TEMPLATES.some((t) => t.id === template.id)) {
+      toast.error(`"${template.id}" is a built-in template id; choose another`)
+      return
+    }
+    // Uploading a template with the same id replaces the earlier upload
+    setCustomTemplates((list) => [...list.filter((t) => t.id !== template.id), template])
+    setSelectedTemplateId(template.id)
+    toast.success(`Template "${template.name}" added`)
+  }
+
+  // Custom fonts are written on change rather than from an effect: a font can exceed the storage quota,
+  // and the user should hear about it when uploading
+  const saveCustomFonts = (fonts: CustomFont[]) => {
+    try {
+      localStorage.setItem("snap-editor-custom-fonts", JSON.stringify(fonts))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  const handleFontUpload = async (file: File | undefined) => {
+    if (!file) return
+    let font: CustomFont
+    try {
+      font = await loadCustomFontFile(file)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `${file.name} could not be loaded as a font`)
+      return
+    }
+    const next = [...customFonts, font]
+    if (!saveCustomFonts(next)) toast.warning(`"${font.name}" is too large to keep after a reload`)
+    setCustomFonts(next)
+    setSelectedFontId(font.id)
+    toast.success(`Font "${font.name}" added`)
+  }
+
+  const handleFontRemove = (id: string) => {
+    const next = customFonts.filter((font) => font.id !== id)
+    saveCustomFonts(next)
+    setCustomFonts(next)
+    if (selectedFontId === id) setSelectedFontId("jetbrains")
+  }
+
+  const handlePhotoUpload = (file: File | undefined) => {
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = () => {
+      const src = reader.result
+      if (typeof src === "string") setPhoto((p) => ({ ...p, src }))
+    }
+    reader.readAsDataURL(file)
+  }
+
+  // Put the editor back the way a snap was exported, as far as its controls can express it
+  const applyRenderSettings = (settings: SnapRenderSettings) => {
+    const font = FONT_OPTIONS.find((f) => f.css === settings.fontFamily)
+    if (font) setSelectedFontId(font.id)
+    const theme = THEME_OPTIONS.find(
+      (t) => t.backgroundColor === settings.backgroundColor && t.cardColor === settings.cardColor && t.textColor === settings.textColor,
+    )
+    if (theme) setSelectedThemeId(theme.id)
+    if (settings.textAlign) setSelectedAlign(settings.textAlign)
+    setTypography((t) => ({
+      lineHeight: settings.lineHeight ?? t.lineHeight,
+      letterSpacing: settings.letterSpacing ?? t.letterSpacing,
+      paragraphSpacing: settings.paragraphSpacing ?? t.paragraphSpacing,
+      fontWeight: settings.fontWeight ?? t.fontWeight,
+    }))
+    if (settings.chrome) setSelectedChrome(settings.chrome)
+    if (settings.chromeTitle !== undefined) setChromeTitle(settings.chromeTitle)
+    if (settings.cardStyle) setGlassCard(settings.cardStyle === "glass")
+    if (settings.template && allTemplates.some((t) => t.id === settings.template)) setSelectedTemplateId(settings.template)
+  }
+
+  // A previously exported image dropped on the editor: restore the snap embedded in it as a new
+  // history entry and open it for editing
+  const handleImageDrop = async (file: File) => {
+    const metadata = readSnapMetadata(new Uint8Array(await file.arrayBuffer()))
+    if (!metadata) {
+      toast.error(`${file.name} has no snap embedded in it`)
+      return
+    }
+    let result: SaveResult
+    try {
+      result = await SnapStorage.saveSnap(metadata.text, metadata.title, metadata.tags, metadata.settings)
+    } catch (error) {
+      console.error("Error saving snap:", error)
+      toast.error("Could not save the snap to your history. Free up some space and try again.")
+      return
+    }
+    const { snap, evicted } = result
+    setText(snap.text)
+    if (metadata.settings) applyRenderSettings(metadata.settings)
+    setIsEditing(true)
+    toast.success(`Restored "${snap.title}"`)
+    if (evicted.length > 0) toast.info(evictionMessage(evicted))
+  }
+
   useEffect(() => {
     if (textareaRef.current) {
       textareaRef.current.style.height = "auto"
       textareaRef.current.style.height = `${textareaRef.current.scrollHeight}px`
     }
-  }, [text, selectedFontSize])
+  }, [text, effectiveFontPx, typography])
 
-  // Center textarea vertically inside the card using a flex wrapper with min-height
+  // Lay out the card with ImageGenerator at the editor card's size (see fitEditorCard)
   useLayoutEffect(() => {
-    const computeContentHeight = () => {
+    const computeLayout = () => {
       const cardEl = cardRef.current
       if (!cardEl) return
-      // Use the full card height so the caret sits in the true middle
-      const available = Math.max(0, cardEl.clientHeight)
-      // Also reflow the textarea height to fit new width
-      const ta = textareaRef.current
-      if (ta) {
-        // Desired inner area (exclude top/bottom visual margin)
-        const reserved = 56
-        const innerAvailable = Math.max(0, available - reserved)
-
-        // Search for largest font size that fits (shrink or grow)
-        const userMax = SIZE_OPTIONS.find((s) => s.id === selectedSizeId)?.px || DEFAULT_FONT_SIZE
-        const globalMax = 96
-        const lowMin = 10
-        let lo = lowMin
-        let hi = Math.max(userMax, Math.min(globalMax, Math.ceil(innerAvailable / 8))) // rough upper bound
-
-        const fits = (px: number) => {
-          ta.style.fontSize = `${px}px`
-          ta.style.lineHeight = `${px * 1.6}px`
-          ta.style.height = "auto"
-          ta.style.height = `${ta.scrollHeight}px`
-          return ta.scrollHeight <= innerAvailable
-        }
-
-        // Binary search for max fitting size, capped by globalMax and not below lowMin
-        while (lo < hi) {
-          const mid = Math.ceil((lo + hi + 1) / 2)
-          if (fits(mid)) lo = mid
-          else hi = mid - 1
-        }
-        const chosen = Math.min(lo, globalMax)
-        fits(chosen)
-        // setEffectiveFontPx(chosen) // Removed as per edit hint
-
-        // Center vertically with symmetric padding
-        // padding handled by flex centering; no explicit verticalPad needed
-      }
+      const generator = (generatorRef.current ??= new ImageGenerator(document.createElement("canvas")))
+      const next = fitEditorCard(generator, text, imageOptions, cardEl.clientWidth, cardEl.clientHeight, selectedFontSize)
+      setLayout(next.layout)
+      setCardFit(next.fit)
+      setEffectiveFontPx(next.layout.fontSize)
     }
-    computeContentHeight()
-    const onWindowResize = () => computeContentHeight()
-    window.addEventListener("resize", onWindowResize)
+    computeLayout()
+    // Canvas measures with whatever faces are loaded; lay out again once the web fonts arrive
+    let active = true
+    document.fonts?.ready.then(() => active && computeLayout())
     // Observe card size changes for drag-resize
     let ro: ResizeObserver | null = null
     if (typeof ResizeObserver !== "undefined" && cardRef.current) {
-      ro = new ResizeObserver(() => computeContentHeight())
+      ro = new ResizeObserver(() => computeLayout())
       ro.observe(cardRef.current)
     }
-    // Second measurement on next frame to account for async font/layout
-    const raf = requestAnimationFrame(() => computeContentHeight())
     return () => {
-      window.removeEventListener("resize", onWindowResize)
-      if (ro && cardRef.current) ro.disconnect()
-      cancelAnimationFrame(raf)
+      active = false
+      ro?.disconnect()
     }
-  }, [text, selectedFontId, selectedSizeId, selectedThemeId])
+  }, [text, imageOptions, selectedFontSize])
 
   // Removed global outside-click handler; Radix Select handles its own dismissal
 
-  // No download/copy; user requested to remove those actions
-
   return (
     <div
-      className="min-h-screen flex flex-col items-center p-4"
-      style={{ backgroundColor: selectedTheme.backgroundColor, color: selectedTheme.textColor }}
+      className="relative isolate min-h-screen flex flex-col items-center p-4"
+      onDragOver={(e) => {
+        // Accept files anywhere on the page instead of letting the browser open them
+        if (e.dataTransfer.types.includes("Files")) e.preventDefault()
+      }}
+      onDrop={(e) => {
+        const file = e.dataTransfer.files[0]
+        if (!file) return
+        e.preventDefault()
+        void handleImageDrop(file)
+      }}
+      style={{ backgroundColor: backgroundFill ? undefined : selectedTheme.backgroundColor, color: selectedTheme.textColor }}
     >
+      {backgroundFill && <BackgroundLayer fill={backgroundFill} className="fixed -z-10" />}
       {/* Top Bar */}
       <div className="w-full max-w-4xl flex items-center justify-end gap-2 mb-4" data-menu>
 
@@ -237,8 +560,13 @@ export default function SnapEditor() {
             size="sm"
             onClick={() => {
               setShowFontSelector((v) => !v)
+              setShowDownloadMenu(false)
               setShowThemeSelector(false)
               setShowSizeSelector(false)
+              setShowBackgroundSelector(false)
+              setShowChromeSelector(false)
+              setShowTemplateSelector(false)
+              setShowTypographySelector(false)
             }}
             className="p-2 hover:bg-secondary cursor-pointer"
             aria-label="Open font selector"
@@ -268,6 +596,28 @@ export default function SnapEditor() {
                     ))}
                   </SelectContent>
                 </Select>
+                {customFonts.some((font) => font.id === selectedFontId) && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="w-full mt-2"
+                    onClick={() => handleFontRemove(selectedFontId)}
+                  >
+                    Remove font
+                  </Button>
+                )}
+                <label className="block text-xs mt-2">
+                  Upload font (.woff2, .ttf)
+                  <Input
+                    type="file"
+                    accept={CUSTOM_FONT_ACCEPT}
+                    onChange={(e) => {
+                      void handleFontUpload(e.target.files?.[0])
+                      e.target.value = ""
+                    }}
+                  />
+                </label>
               </div>
             </div>
           )}
@@ -281,9 +631,14 @@ export default function SnapEditor() {
             size="sm"
             onClick={() => {
               setShowAlignSelector((v) => !v)
+              setShowDownloadMenu(false)
               setShowFontSelector(false)
               setShowSizeSelector(false)
               setShowThemeSelector(false)
+              setShowBackgroundSelector(false)
+              setShowChromeSelector(false)
+              setShowTemplateSelector(false)
+              setShowTypographySelector(false)
             }}
             className="p-2 hover:bg-secondary cursor-pointer"
             aria-label="Open alignment selector"
@@ -291,13 +646,14 @@ export default function SnapEditor() {
             {selectedAlign === "left" && <AlignLeft className="w-4 h-4" />}
             {selectedAlign === "center" && <AlignCenter className="w-4 h-4" />}
             {selectedAlign === "right" && <AlignRight className="w-4 h-4" />}
+            {selectedAlign === "justify" && <AlignJustify className="w-4 h-4" />}
           </Button>
           {showAlignSelector && (
             <div className="absolute top-full right-0 mt-2 w-40 bg-card border border-border rounded-lg shadow-lg z-50">
               <div className="p-2">
                 <Select
                   value={selectedAlign}
-                  onValueChange={(value) => setSelectedAlign(value as any)}
+                  onValueChange={(value) => setSelectedAlign(value as TextAlign)}
                 >
                   <SelectTrigger className="w-full">
                     <SelectValue placeholder="Alignment" />
@@ -306,6 +662,7 @@ export default function SnapEditor() {
                     <SelectItem value="left">Left</SelectItem>
                     <SelectItem value="center">Center</SelectItem>
                     <SelectItem value="right">Right</SelectItem>
+                    <SelectItem value="justify">Justify</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -313,6 +670,93 @@ export default function SnapEditor() {
           )}
         </div>
 
+        {/* Typography Selector */}
+        <div className="relative" data-menu>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setShowTypographySelector((v) => !v)
+              setShowDownloadMenu(false)
+              setShowFontSelector(false)
+              setShowSizeSelector(false)
+              setShowAlignSelector(false)
+              setShowThemeSelector(false)
+              setShowBackgroundSelector(false)
+              setShowChromeSelector(false)
+              setShowTemplateSelector(false)
+            }}
+            className="p-2 hover:bg-secondary cursor-pointer"
+            aria-label="Open typography settings"
+          >
+            <Baseline className="w-4 h-4" />
+          </Button>
+          {showTypographySelector && (
+            <div className="absolute top-full right-0 mt-2 w-56 bg-card border border-border rounded-lg shadow-lg z-50">
+              <div className="p-2 space-y-2">
+                <label className="block text-xs">
+                  Line height ({typography.lineHeight.toFixed(2)})
+                  <Input
+                    type="range"
+                    min={1}
+                    max={2.4}
+                    step={0.05}
+                    value={typography.lineHeight}
+                    onChange={(e) => setTypography((t) => ({ ...t, lineHeight: Number(e.target.value) }))}
+                  />
+                </label>
+                <label className="block text-xs">
+                  Letter spacing ({typography.letterSpacing.toFixed(2)}em)
+                  <Input
+                    type="range"
+                    min={-0.05}
+                    max={0.3}
+                    step={0.01}
+                    value={typography.letterSpacing}
+                    onChange={(e) => setTypography((t) => ({ ...t, letterSpacing: Number(e.target.value) }))}
+                  />
+                </label>
+                <label className="block text-xs">
+                  Paragraph spacing ({typography.paragraphSpacing.toFixed(2)})
+                  <Input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.05}
+                    value={typography.paragraphSpacing}
+                    onChange={(e) => setTypography((t) => ({ ...t, paragraphSpacing: Number(e.target.value) }))}
+                  />
+                </label>
+                <Select
+                  value={String(typography.fontWeight)}
+                  onValueChange={(value) => setTypography((t) => ({ ...t, fontWeight: Number(value) }))}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Weight" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEIGHT_OPTIONS.map((weight) => (
+                      <SelectItem key={weight.value} value={String(weight.value)}>
+                        <span style={{ fontWeight: weight.value }}>{weight.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setTypography(DEFAULT_TYPOGRAPHY)}
+                >
+                  Reset
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Size Selector */}
         <div className="relative" data-menu>
           <Button
@@ -321,9 +765,14 @@ export default function SnapEditor() {
             size="sm"
             onClick={() => {
               setShowSizeSelector((v) => !v)
+              setShowDownloadMenu(false)
               setShowFontSelector(false)
               setShowThemeSelector(false)
               setShowAlignSelector(false)
+              setShowBackgroundSelector(false)
+              setShowChromeSelector(false)
+              setShowTemplateSelector(false)
+              setShowTypographySelector(false)
             }}
             className="p-2 hover:bg-secondary cursor-pointer"
             aria-label="Open text size selector"
@@ -363,9 +812,14 @@ export default function SnapEditor() {
             size="sm"
             onClick={() => {
               setShowThemeSelector((v) => !v)
+              setShowDownloadMenu(false)
               setShowFontSelector(false)
               setShowSizeSelector(false)
               setShowAlignSelector(false)
+              setShowBackgroundSelector(false)
+              setShowChromeSelector(false)
+              setShowTemplateSelector(false)
+              setShowTypographySelector(false)
             }}
             className="p-2 cursor-pointer"
             aria-label="Open theme selector"
@@ -394,6 +848,209 @@ export default function SnapEditor() {
             </div>
           )}
         </div>
+
+        {/* Window Chrome Selector */}
+        <div className="relative" data-menu>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setShowChromeSelector((v) => !v)
+              setShowDownloadMenu(false)
+              setShowFontSelector(false)
+              setShowSizeSelector(false)
+              setShowAlignSelector(false)
+              setShowThemeSelector(false)
+              setShowBackgroundSelector(false)
+              setShowTemplateSelector(false)
+              setShowTypographySelector(false)
+            }}
+            className="p-2 cursor-pointer"
+            aria-label="Open window chrome selector"
+          >
+            <AppWindow className="w-4 h-4" />
+          </Button>
+          {showChromeSelector && (
+            <div className="absolute top-full right-0 mt-2 w-56 bg-card text-card-foreground border border-border rounded-lg shadow-lg z-50">
+              <div className="p-2 space-y-2">
+                <Select value={selectedChrome} onValueChange={(value) => setSelectedChrome(value as ChromeId)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Window chrome" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(CHROME_STYLES).map((style) => (
+                      <SelectItem key={style.id} value={style.id}>
+                        {style.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedChrome !== "macos" && selectedChrome !== "none" && (
+                  <Input
+                    value={chromeTitle}
+                    onChange={(e) => setChromeTitle(e.target.value)}
+                    placeholder="Window title"
+                    maxLength={100}
+                  />
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Layout Template Selector */}
+        <div className="relative" data-menu>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setShowTemplateSelector((v) => !v)
+              setShowDownloadMenu(false)
+              setShowFontSelector(false)
+              setShowSizeSelector(false)
+              setShowAlignSelector(false)
+              setShowThemeSelector(false)
+              setShowBackgroundSelector(false)
+              setShowChromeSelector(false)
+              setShowTypographySelector(false)
+            }}
+            className="p-2 cursor-pointer"
+            aria-label="Open layout template selector"
+          >
+            <LayoutTemplateIcon className="w-4 h-4" />
+          </Button>
+          {showTemplateSelector && (
+            <div className="absolute top-full right-0 mt-2 w-64 bg-card text-card-foreground border border-border rounded-lg shadow-lg z-50">
+              <div className="p-2 space-y-2">
+                <Select value={selectedTemplate.id} onValueChange={(value) => setSelectedTemplateId(value)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Layout template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {allTemplates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <label className="block text-xs">
+                  Upload template (JSON)
+                  <Input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={(e) => {
+                      void handleTemplateUpload(e.target.files?.[0])
+                      e.target.value = ""
+                    }}
+                  />
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Background Selector */}
+        <div className="relative" data-menu>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setShowBackgroundSelector((v) => !v)
+              setShowDownloadMenu(false)
+              setShowFontSelector(false)
+              setShowSizeSelector(false)
+              setShowAlignSelector(false)
+              setShowThemeSelector(false)
+              setShowChromeSelector(false)
+              setShowTemplateSelector(false)
+              setShowTypographySelector(false)
+            }}
+            className="p-2 cursor-pointer"
+            aria-label="Open background selector"
+          >
+            <ImageIcon className="w-4 h-4" />
+          </Button>
+          {showBackgroundSelector && (
+            <div className="absolute top-full right-0 mt-2 w-64 bg-card text-card-foreground border border-border rounded-lg shadow-lg z-50">
+              <div className="p-2 space-y-3">
+                <Select value={selectedBackgroundId} onValueChange={(value) => setSelectedBackgroundId(value)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Background" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BACKGROUND_OPTIONS.map((b) => (
+                      <SelectItem key={b.id} value={b.id}>
+                        {b.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedBackgroundId === "photo" && (
+                  <>
+                    <Input type="file" accept="image/*" onChange={(e) => handlePhotoUpload(e.target.files?.[0])} />
+                    <label className="block text-xs">
+                      Blur ({photo.blur}px)
+                      <Input
+                        type="range"
+                        min={0}
+                        max={40}
+                        value={photo.blur}
+                        onChange={(e) => setPhoto((p) => ({ ...p, blur: Number(e.target.value) }))}
+                      />
+                    </label>
+                    <label className="block text-xs">
+                      Dim ({Math.round(photo.dim * 100)}%)
+                      <Input
+                        type="range"
+                        min={0}
+                        max={0.8}
+                        step={0.05}
+                        value={photo.dim}
+                        onChange={(e) => setPhoto((p) => ({ ...p, dim: Number(e.target.value) }))}
+                      />
+                    </label>
+                  </>
+                )}
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={glassCard} onCheckedChange={(checked) => setGlassCard(checked === true)} />
+                  Frosted glass card
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Export: PNG, SVG, PDF, carousel and typewriter animation, from the layout options of the card on screen */}
+        <div className="relative" data-menu>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setShowDownloadMenu((v) => !v)
+              setShowFontSelector(false)
+              setShowSizeSelector(false)
+              setShowAlignSelector(false)
+              setShowThemeSelector(false)
+              setShowBackgroundSelector(false)
+              setShowChromeSelector(false)
+              setShowTemplateSelector(false)
+              setShowTypographySelector(false)
+            }}
+            disabled={!text.trim()}
+            className="p-2 cursor-pointer"
+            aria-label="Open export menu"
+          >
+            <Download className="w-4 h-4" />
+          </Button>
+          {showDownloadMenu && (
+            <DownloadMenu onClose={() => setShowDownloadMenu(false)} text={text} imageOptions={layoutOptions} />
+          )}
+        </div>
       </div>
 
       <div className="w-full max-w-4xl flex-1 flex items-center justify-center">
@@ -401,8 +1058,11 @@ export default function SnapEditor() {
         <Card
           className="relative shadow-lg border-0 p-10 rounded-2xl resize overflow-hidden"
           style={{
-            boxShadow: "0 10px 40px rgba(0,0,0,0.1)",
-            backgroundColor: selectedTheme.cardColor,
+            // Frosted glass matches the exporter: translucent card over the blurred background, no shadow
+            boxShadow: glassCard ? "none" : "0 10px 40px rgba(0,0,0,0.1)",
+            backgroundColor: glassCard ? withAlpha(selectedTheme.cardColor, GLASS_OPACITY) : selectedTheme.cardColor,
+            backdropFilter: glassCard ? `blur(${GLASS_BLUR}px)` : undefined,
+            borderRadius: selectedTemplate.card.radius,
             width: "800px",
             height: "420px",
             maxWidth: "100%",
@@ -411,27 +1071,63 @@ export default function SnapEditor() {
           }}
           ref={cardRef}
         >
-          {/* macOS Traffic Lights */}
-          <div className="absolute top-6 left-6 flex gap-2">
-            <div className="w-3 h-3 rounded-full bg-red-500"></div>
-            <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
-            <div className="w-3 h-3 rounded-full bg-green-500"></div>
-          </div>
+          {/* Window chrome, drawn from the same shapes as the exported card */}
+          <WindowChrome
+            chrome={activeChrome}
+            title={activeChromeTitle}
+            textColor={selectedTheme.textColor}
+            cardColor={selectedTheme.cardColor}
+          />
+          {/* Template logo, anchored to the same corner as in the export */}
+          {selectedTemplate.logo && (
+            <img
+              src={selectedTemplate.logo.src}
+              alt=""
+              className="absolute object-contain pointer-events-none"
+              style={{
+                width: selectedTemplate.logo.width,
+                height: selectedTemplate.logo.height,
+                opacity: selectedTemplate.logo.opacity,
+                [selectedTemplate.logo.position.startsWith("top") ? "top" : "bottom"]: selectedTemplate.logo.margin,
+                [selectedTemplate.logo.position.endsWith("left") ? "left" : "right"]: selectedTemplate.logo.margin,
+              }}
+            />
+          )}
           {/* Text Content */}
-          <div className="w-full" style={{ height: "calc(100% - 56px)", marginTop: 56 }}>
-            <div className="flex items-center justify-center w-full h-full">
+          <div
+            className="w-full"
+            style={{
+              height: `calc(100% - ${CHROME_STYLES[activeChrome].headerHeight}px)`,
+              marginTop: CHROME_STYLES[activeChrome].headerHeight,
+            }}
+          >
+            <div className="relative flex items-center justify-center w-full h-full">
               <Textarea
-                key={selectedFontSize}
                 ref={textareaRef}
                 value={text}
                 onChange={(e) => setText(e.target.value)}
+                onFocus={() => setIsEditing(true)}
+                onBlur={() => setIsEditing(false)}
                 className="w-full max-w-full border-0 bg-transparent resize-none focus:ring-0 leading-relaxed break-words overflow-hidden text-center"
-                style={{ fontFamily: selectedFontCss, fontSize: selectedFontSize, color: selectedTheme.textColor, whiteSpace: "pre-wrap", textAlign: selectedAlign as any }}
+                dir="auto"
+                style={{ fontFamily: selectedFontCss, fontSize: effectiveFontPx, lineHeight: `${effectiveFontPx * typography.lineHeight}px`, letterSpacing: `${typography.letterSpacing}em`, fontWeight: typography.fontWeight, color: selectedTheme.textColor, whiteSpace: "pre-wrap", textAlign: LOGICAL_ALIGN[activeAlign], unicodeBidi: "plaintext", visibility: showPreview ? "hidden" : "visible" }}
                 placeholder="Start typing your thoughts..."
                 autoFocus
               />
             </div>
           </div>
+          {/* The laid-out card while the textarea is blurred: the same layout every export paints */}
+          {showPreview && layout && (
+            <CardLayoutView
+              layout={layout}
+              textColor={selectedTheme.textColor}
+              onClick={() => {
+                // The textarea is hidden while previewing; reveal it before focusing
+                setIsEditing(true)
+                requestAnimationFrame(() => textareaRef.current?.focus())
+              }}
+            />
+          )}
           {/* Preset preview removed */}
         </Card>
 
@@ -0,0 +1,30 @@
+"use client"
+
+import { backgroundCss, type BackgroundFill } from "@/lib/backgrounds"
+import { cn } from "@/lib/utils"
+
+interface BackgroundLayerProps {
+  readonly fill: BackgroundFill
+  readonly className?: string
+}
+
+// Paints a BackgroundFill behind the editor the way ImageGenerator paints it on the exported canvas
+export function BackgroundLayer({ fill, className }: BackgroundLayerProps) {
+  if (fill.kind !== "photo") {
+    return <div aria-hidden className={cn("absolute inset-0", className)} style={backgroundCss(fill)} />
+  }
+  return (
+    <div aria-hidden className={cn("absolute inset-0 overflow-hidden", className)}>
+      {/* Oversized like the export so the blurred edges fall outside the viewport */}
+      <div
+        className="absolute bg-cover bg-center"
+        style={{
+          inset: -fill.blur * 2,
+          backgroundImage: `url(${JSON.stringify(fill.src)})`,
+          filter: fill.blur > 0 ? `blur(${fill.blur}px)` : undefined,
+        }}
+      />
+      <div className="absolute inset-0" style={{ backgroundColor: `rgba(0, 0, 0, ${fill.dim})` }} />
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import type { CardLayout } from "@/lib/image-generator"
+import { cardContentSvg } from "@/lib/svg-export"
+import { cn } from "@/lib/utils"
+
+interface CardLayoutViewProps {
+  readonly layout: CardLayout
+  readonly textColor: string
+  readonly className?: string
+  readonly onClick?: () => void
+}
+
+// Editor preview of a card's text, drawn from the CardLayout the exporters paint. The SVG's viewBox is
+// the layout's card rectangle, so placed over the editor card every line sits where the export puts it.
+export function CardLayoutView({ layout, textColor, className, onClick }: CardLayoutViewProps) {
+  const { card } = layout
+  const { defs, body } = cardContentSvg(layout, { textColor })
+  const svg = `<defs>${defs.join("")}</defs>${body.join("")}`
+  return (
+    <svg
+      className={cn("absolute left-0 top-0 cursor-text", className)}
+      width={card.width}
+      height={card.height}
+      viewBox={`${card.x} ${card.y} ${card.width} ${card.height}`}
+      onClick={onClick}
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  )
+}
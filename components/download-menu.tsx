@@ -1,28 +1,43 @@
 "use client"
 
-import type React from "react"
-
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
-import { Download, X } from "lucide-react"
-import { toPng } from "html-to-image"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download, FileText, Film, GalleryHorizontal, PenTool, X } from "lucide-react"
+import JSZip from "jszip"
 import { toast } from "sonner"
+import { ImageGenerator, TextOverflowError, type ImageOptions } from "@/lib/image-generator"
+import { defaultTypewriterOptions, type TypewriterOptions } from "@/lib/typewriter"
+import { snapMetadataFor } from "@/lib/snap-metadata"
 
 interface DownloadMenuProps {
   readonly onClose: () => void
-  readonly cardElementRef?: React.RefObject<HTMLDivElement>
+  // Snap text and the exact options the editor laid the card out with, fitted size and font included
+  // (see fitEditorCard), so single-card exports break lines where the card on screen does
+  readonly text: string
+  readonly imageOptions?: Partial<ImageOptions>
+  // Embedded in raster exports with the text, so dropping the image on the editor reopens the snap
+  readonly title?: string
+  readonly tags?: string[]
 }
 
-export function DownloadMenu({ onClose, cardElementRef }: DownloadMenuProps) {
+const SOCIAL_PRESETS = ImageGenerator.getSocialMediaPresets()
+
+export function DownloadMenu({ onClose, text, imageOptions, title, tags }: DownloadMenuProps) {
   const [isGenerating, setIsGenerating] = useState(false)
+  const [carouselPreset, setCarouselPreset] = useState<string>("twitter-post")
+  const [animationFormat, setAnimationFormat] = useState<TypewriterOptions["format"]>("gif")
+  const [typingSpeed, setTypingSpeed] = useState(defaultTypewriterOptions.speed)
 
   const handleDownload = async () => {
-    const node = cardElementRef?.current
-    if (!node) return
+    if (!text.trim()) return
     setIsGenerating(true)
     try {
-      const dataUrl = await toPng(node, { pixelRatio: 3, cacheBust: true })
+      const generator = new ImageGenerator(document.createElement("canvas"))
+      const metadata = snapMetadataFor(text, imageOptions, title, tags)
+      const dataUrl = await generator.generateImage(text, { ...imageOptions, metadata, format: "png" })
 
       const link = document.createElement("a")
       const timestamp = new Date().toISOString().split("T")[0]
@@ -32,7 +47,112 @@ export function DownloadMenu({ onClose, cardElementRef }: DownloadMenuProps) {
       toast.success("Image downloaded")
     } catch (error) {
       console.error("Error generating image:", error)
-      toast.error("Failed to generate image. Please try again.")
+      toast.error(error instanceof TextOverflowError ? error.message : "Failed to generate image. Please try again.")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const triggerDownload = (href: string, filename: string) => {
+    const link = document.createElement("a")
+    link.download = filename
+    link.href = href
+    link.click()
+  }
+
+  // Revoking the object URL straight after click() cancels the download in Safari and Firefox, so it is
+  // kept around until the browser has surely started reading it
+  const triggerBlobDownload = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob)
+    triggerDownload(url, filename)
+    setTimeout(() => URL.revokeObjectURL(url), 60_000)
+  }
+
+  // Editable vector card (real <text> elements) for design tools such as Figma
+  const handleSvgDownload = async () => {
+    if (!text.trim()) return
+    setIsGenerating(true)
+    try {
+      const generator = new ImageGenerator(document.createElement("canvas"))
+      const svgUrl = await generator.generateImage(text, { ...imageOptions, format: "svg" })
+      const timestamp = new Date().toISOString().split("T")[0]
+      triggerDownload(svgUrl, `snap-${timestamp}.svg`)
+      toast.success("SVG downloaded")
+    } catch (error) {
+      console.error("Error generating SVG:", error)
+      toast.error("Failed to generate SVG. Please try again.")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  // One PDF page per carousel slide, for LinkedIn document posts
+  const handlePdfDownload = async () => {
+    if (!text.trim()) return
+    setIsGenerating(true)
+    try {
+      const generator = new ImageGenerator(document.createElement("canvas"))
+      const [pdfUrl] = await generator.generateCarousel(text, {
+        ...imageOptions,
+        ...SOCIAL_PRESETS[carouselPreset],
+        strict: true,
+        format: "pdf",
+      })
+      const timestamp = new Date().toISOString().split("T")[0]
+      triggerDownload(pdfUrl, `snap-${timestamp}.pdf`)
+      toast.success("PDF downloaded")
+    } catch (error) {
+      console.error("Error generating PDF:", error)
+      toast.error(error instanceof TextOverflowError ? error.message : "Failed to generate PDF. Please try again.")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  // Typewriter animation of the card; WebM records in real time, so it takes as long as the animation
+  const handleAnimationDownload = async () => {
+    if (!text.trim()) return
+    setIsGenerating(true)
+    try {
+      const generator = new ImageGenerator(document.createElement("canvas"))
+      const url = await generator.generateTypewriter(text, imageOptions, { format: animationFormat, speed: typingSpeed })
+      const timestamp = new Date().toISOString().split("T")[0]
+      triggerDownload(url, `snap-${timestamp}.${animationFormat}`)
+      toast.success("Animation downloaded")
+    } catch (error) {
+      console.error("Error generating animation:", error)
+      toast.error("Failed to generate animation. Please try again.")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleCarouselDownload = async () => {
+    if (!text.trim()) return
+    setIsGenerating(true)
+    try {
+      const generator = new ImageGenerator(document.createElement("canvas"))
+      // Strict keeps every slide at the preset's exact size instead of growing taller
+      // Every slide carries the whole snap, so any one of them reopens it
+      const metadata = snapMetadataFor(text, imageOptions, title, tags)
+      const options = { ...imageOptions, ...SOCIAL_PRESETS[carouselPreset], strict: true, metadata }
+      // The zip always holds raster slides; PDF has its own download
+      const format = options.format === undefined || options.format === "pdf" ? "png" : options.format
+      const slides = await generator.generateCarousel(text, { ...options, format })
+
+      const zip = new JSZip()
+      slides.forEach((dataUrl, i) => {
+        const name = `slide-${String(i + 1).padStart(2, "0")}.${format === "jpeg" ? "jpg" : format}`
+        zip.file(name, dataUrl.slice(dataUrl.indexOf(",") + 1), { base64: true })
+      })
+      const blob = await zip.generateAsync({ type: "blob" })
+
+      const timestamp = new Date().toISOString().split("T")[0]
+      triggerBlobDownload(blob, `snap-carousel-${timestamp}.zip`)
+      toast.success(`Carousel downloaded (${slides.length} ${slides.length === 1 ? "slide" : "slides"})`)
+    } catch (error) {
+      console.error("Error generating carousel:", error)
+      toast.error(error instanceof TextOverflowError ? error.message : "Failed to generate carousel. Please try again.")
     } finally {
       setIsGenerating(false)
     }
@@ -48,10 +168,89 @@ export function DownloadMenu({ onClose, cardElementRef }: DownloadMenuProps) {
       </div>
 
       <div className="space-y-3 mb-2">
-        <Button onClick={handleDownload} disabled={isGenerating} className="w-full" size="sm">
+        <Button onClick={handleDownload} disabled={isGenerating || !text.trim()} className="w-full" size="sm">
           <Download className="w-4 h-4 mr-2" />
           Download Image
         </Button>
+        <Button
+          onClick={handleSvgDownload}
+          disabled={isGenerating || !text.trim()}
+          variant="outline"
+          className="w-full"
+          size="sm"
+        >
+          <PenTool className="w-4 h-4 mr-2" />
+          Download SVG
+        </Button>
+      </div>
+
+      <div className="space-y-2 mt-4 mb-2">
+        <h4 className="text-sm font-medium">Typewriter</h4>
+        <Select value={animationFormat} onValueChange={(value) => setAnimationFormat(value as TypewriterOptions["format"])}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Format" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="gif">GIF</SelectItem>
+            <SelectItem value="webm">WebM</SelectItem>
+          </SelectContent>
+        </Select>
+        <label className="block text-xs">
+          Speed ({typingSpeed} characters/s)
+          <Input
+            type="range"
+            min={5}
+            max={60}
+            value={typingSpeed}
+            onChange={(e) => setTypingSpeed(Number(e.target.value))}
+          />
+        </label>
+        <Button
+          onClick={handleAnimationDownload}
+          disabled={isGenerating || !text.trim()}
+          variant="outline"
+          className="w-full"
+          size="sm"
+        >
+          <Film className="w-4 h-4 mr-2" />
+          Download Animation
+        </Button>
+      </div>
+
+      <div className="space-y-2 mt-4 mb-2">
+        <h4 className="text-sm font-medium">Carousel</h4>
+        <Select value={carouselPreset} onValueChange={setCarouselPreset}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Slide size" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SOCIAL_PRESETS).map(([id, preset]) => (
+              <SelectItem key={id} value={id}>
+                {id} ({preset.width}×{preset.height})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={handleCarouselDownload}
+          disabled={isGenerating || !text.trim()}
+          variant="outline"
+          className="w-full"
+          size="sm"
+        >
+          <GalleryHorizontal className="w-4 h-4 mr-2" />
+          Download Carousel (.zip)
+        </Button>
+        <Button
+          onClick={handlePdfDownload}
+          disabled={isGenerating || !text.trim()}
+          variant="outline"
+          className="w-full"
+          size="sm"
+        >
+          <FileText className="w-4 h-4 mr-2" />
+          Download PDF Document
+        </Button>
       </div>
 
       {isGenerating && (
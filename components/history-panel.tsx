@@ -20,7 +20,7 @@ import {
   SortDesc,
   Filter,
 } from "lucide-react"
-import { type SavedSnap, SnapStorage, type StorageStats } from "@/lib/storage"
+import { type SavedSnap, SnapStorage, type StorageStats, evictionMessage, filterSnaps } from "@/lib/storage"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -47,6 +47,9 @@ export function HistoryPanel({ onClose, onLoadSnap, onDeleteSnap, savedSnaps, on
   const [sortBy, setSortBy] = useState<SortOption>("newest")
   const [filterBy, setFilterBy] = useState<FilterOption>("all")
   const [showBulkActions, setShowBulkActions] = useState(false)
+  const [maxHistory, setMaxHistory] = useState(() => SnapStorage.getSettings().maxHistory)
+  // Ids of the favorite snaps, read through the tags index whenever the history changes
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set())
 
   // Close on Escape key
   useEffect(() => {
@@ -57,19 +60,31 @@ export function HistoryPanel({ onClose, onLoadSnap, onDeleteSnap, savedSnaps, on
     return () => document.removeEventListener("keydown", onKey)
   }, [onClose])
 
+  useEffect(() => {
+    let cancelled = false
+    SnapStorage.getSnapsByTag("favorite")
+      .then((favorites) => {
+        if (!cancelled) setFavoriteIds(new Set(favorites.map((snap) => snap.id)))
+      })
+      .catch((e) => console.error("Error loading favorites:", e))
+    return () => {
+      cancelled = true
+    }
+  }, [savedSnaps])
+
   // Filter and sort snaps
   const processedSnaps = useMemo(() => {
     let filtered = savedSnaps
 
     // Apply search filter
     if (searchQuery.trim()) {
-      filtered = SnapStorage.searchSnaps(searchQuery)
+      filtered = filterSnaps(filtered, searchQuery)
     }
 
     // Apply category filter
     switch (filterBy) {
       case "favorites":
-        filtered = filtered.filter((snap) => snap.tags?.includes("favorite"))
+        filtered = filtered.filter((snap) => favoriteIds.has(snap.id))
         break
       case "recent":
         const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000
@@ -101,14 +116,39 @@ export function HistoryPanel({ onClose, onLoadSnap, onDeleteSnap, savedSnaps, on
     }
 
     return filtered
-  }, [savedSnaps, searchQuery, sortBy, filterBy])
+  }, [savedSnaps, searchQuery, sortBy, filterBy, favoriteIds])
 
-  const loadStats = () => {
-    setStats(SnapStorage.getStats())
+  const loadStats = async () => {
+    setStats(await SnapStorage.getStats())
   }
 
-  const handleExport = () => {
-    const data = SnapStorage.exportData()
+  // Lowering the limit below the current count evicts the oldest snaps, so ask first and report what went
+  const handleMaxHistoryChange = async (value: number) => {
+    const limit = Math.max(0, Math.floor(value))
+    try {
+      const overflow = await SnapStorage.overLimit(limit)
+      if (
+        overflow.length > 0 &&
+        !confirm(`Keeping ${limit} snaps removes the ${overflow.length} oldest from this device. Continue?`)
+      ) {
+        return
+      }
+      SnapStorage.saveSettings({ maxHistory: limit })
+      setMaxHistory(limit)
+      const evicted = await SnapStorage.applyRetention()
+      if (evicted.length > 0) {
+        onRefresh()
+        await loadStats()
+        alert(evictionMessage(evicted))
+      }
+    } catch (error) {
+      console.error("Error applying history limit:", error)
+      alert("Could not apply the new history limit. Please try again.")
+    }
+  }
+
+  const handleExport = async () => {
+    const data = await SnapStorage.exportData()
     const blob = new Blob([data], { type: "application/json" })
     const url = URL.createObjectURL(blob)
     const link = document.createElement("a")
@@ -127,37 +167,43 @@ export function HistoryPanel({ onClose, onLoadSnap, onDeleteSnap, savedSnaps, on
       if (!file) return
 
       const reader = new FileReader()
-      reader.onload = (e) => {
+      reader.onload = async (e) => {
         const content = e.target?.result as string
-        const result = SnapStorage.importData(content)
-
-        if (result.success) {
-          onRefresh()
-          alert(`${result.message}`)
-        } else {
-          alert(`Import failed: ${result.message}`)
+        try {
+          const result = await SnapStorage.importData(content)
+
+          if (result.success) {
+            onRefresh()
+            alert(`${result.message}`)
+          } else {
+            alert(`Import failed: ${result.message}`)
+          }
+        } catch (error) {
+          console.error("Error importing snaps:", error)
+          alert("Import failed: the snaps could not be saved on this device")
         }
       }
+      reader.onerror = () => alert("Import failed: the file could not be read")
       reader.readAsText(file)
     }
     input.click()
   }
 
-  const handleClearAll = () => {
+  const handleClearAll = async () => {
     if (confirm("Are you sure you want to delete all saved snaps? This cannot be undone.")) {
-      SnapStorage.clearAll()
+      await SnapStorage.clearAll()
       onRefresh()
       setSelectedSnaps(new Set())
     }
   }
 
-  const toggleFavorite = (snap: SavedSnap) => {
+  const toggleFavorite = async (snap: SavedSnap) => {
     const currentTags = snap.tags || []
     const isFavorite = currentTags.includes("favorite")
 
     const updatedTags = isFavorite ? currentTags.filter((tag) => tag !== "favorite") : [...currentTags, "favorite"]
 
-    SnapStorage.updateSnap(snap.id, { tags: updatedTags })
+    await SnapStorage.updateSnap(snap.id, { tags: updatedTags })
     onRefresh()
   }
 
@@ -182,25 +228,25 @@ export function HistoryPanel({ onClose, onLoadSnap, onDeleteSnap, savedSnaps, on
     }
   }
 
-  const handleBulkDelete = () => {
+  const handleBulkDelete = async () => {
     if (confirm(`Delete ${selectedSnaps.size} selected snaps? This cannot be undone.`)) {
-      selectedSnaps.forEach((id) => SnapStorage.deleteSnap(id))
+      await SnapStorage.deleteSnaps([...selectedSnaps])
       onRefresh()
       setSelectedSnaps(new Set())
       setShowBulkActions(false)
     }
   }
 
-  const handleBulkFavorite = () => {
-    selectedSnaps.forEach((id) => {
+  const handleBulkFavorite = async () => {
+    for (const id of selectedSnaps) {
       const snap = savedSnaps.find((s) => s.id === id)
       if (snap) {
         const currentTags = snap.tags || []
         if (!currentTags.includes("favorite")) {
-          SnapStorage.updateSnap(id, { tags: [...currentTags, "favorite"] })
+          await SnapStorage.updateSnap(id, { tags: [...currentTags, "favorite"] })
         }
       }
-    })
+    }
     onRefresh()
     setSelectedSnaps(new Set())
     setShowBulkActions(false)
@@ -232,7 +278,7 @@ export function HistoryPanel({ onClose, onLoadSnap, onDeleteSnap, savedSnaps, on
   const getFilterCount = (filter: FilterOption): number => {
     switch (filter) {
       case "favorites":
-        return savedSnaps.filter((snap) => snap.tags?.includes("favorite")).length
+        return favoriteIds.size
       case "recent":
         const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000
         return savedSnaps.filter((snap) => snap.timestamp > weekAgo).length
@@ -392,6 +438,22 @@ export function HistoryPanel({ onClose, onLoadSnap, onDeleteSnap, savedSnaps, on
                 <span className="ml-2 font-medium">{stats.totalCharacters.toLocaleString()}</span>
               </div>
             </div>
+            <label className="mt-3 flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Keep up to</span>
+              <Input
+                type="number"
+                min={0}
+                defaultValue={maxHistory}
+                key={maxHistory}
+                onBlur={(e) => {
+                  const value = Number(e.target.value)
+                  if (Number.isFinite(value) && value !== maxHistory) void handleMaxHistoryChange(value)
+                  else e.target.value = String(maxHistory)
+                }}
+                className="h-8 w-24"
+              />
+              <span className="text-muted-foreground">snaps (0 = all)</span>
+            </label>
           </div>
         )}
 
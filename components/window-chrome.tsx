@@ -0,0 +1,35 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { CHROME_STYLES, chromeShapes, chromeShapesSvg, type ChromeId } from "@/lib/chrome"
+
+interface WindowChromeProps {
+  readonly chrome: ChromeId
+  readonly title: string
+  readonly textColor: string
+  readonly cardColor: string
+}
+
+// Editor card header drawn from the same shapes the exporter paints, sized to the card's width
+export function WindowChrome({ chrome, title, textColor, cardColor }: WindowChromeProps) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState(0)
+
+  useEffect(() => {
+    const el = ref.current
+    if (!el) return
+    setWidth(el.clientWidth)
+    if (typeof ResizeObserver === "undefined") return
+    const ro = new ResizeObserver(() => setWidth(el.clientWidth))
+    ro.observe(el)
+    return () => ro.disconnect()
+  }, [])
+
+  const height = CHROME_STYLES[chrome].headerHeight
+  const svg = width > 0 ? chromeShapesSvg(chromeShapes(chrome, { width, textColor, cardColor, title })) : ""
+  return (
+    <div ref={ref} aria-hidden className="absolute top-0 left-0 right-0 pointer-events-none" style={{ height }}>
+      <svg width={width} height={height} dangerouslySetInnerHTML={{ __html: svg }} />
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import type React from "react"
+
+// Card backgrounds beyond a flat color. The canvas painter (ImageGenerator), the SVG export and the
+// editor's CSS preview all read the geometry, pattern tiles and glass settings from here so they match.
+
+export type BackgroundPattern = "dots" | "grid" | "noise"
+
+export type BackgroundFill =
+  // CSS angle convention: 0deg points up, 90deg to the right; colors are spread evenly
+  | { kind: "linear"; angle: number; colors: string[] }
+  // Circle from the center out to the farthest corner
+  | { kind: "radial"; colors: string[] }
+  // Repeating tile of ink-colored shapes over a base color
+  | { kind: "pattern"; pattern: BackgroundPattern; color: string; ink: string }
+  // Image scaled to cover, blurred by `blur` px and darkened by `dim` (0..1)
+  | { kind: "photo"; src: string; blur: number; dim: number }
+
+// Frosted glass card: background blur behind the card and the card color's opacity over it
+export const GLASS_BLUR = 24
+export const GLASS_OPACITY = 0.55
+
+export type TileShape =
+  | { kind: "circle"; cx: number; cy: number; r: number; alpha: number }
+  | { kind: "rect"; x: number; y: number; width: number; height: number; alpha: number }
+
+// #rrggbb plus an alpha channel; other color syntaxes are returned unchanged
+export function withAlpha(color: string, alpha: number): string {
+  if (!/^#[0-9a-f]{6}$/i.test(color)) return color
+  return color + Math.round(alpha * 255).toString(16).padStart(2, "0")
+}
+
+// Start and end points of a CSS linear-gradient() over a width x height box
+export function linearGradientLine(angle: number, width: number, height: number) {
+  const radians = (angle * Math.PI) / 180
+  const dx = Math.sin(radians)
+  const dy = -Math.cos(radians)
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2
+  const cx = width / 2
+  const cy = height / 2
+  return { x0: cx - dx * half, y0: cy - dy * half, x1: cx + dx * half, y1: cy + dy * half }
+}
+
+export function radialGradientRadius(width: number, height: number): number {
+  return Math.hypot(width / 2, height / 2)
+}
+
+// Small deterministic PRNG so noise looks identical in every renderer and on every render
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const tiles = new Map<BackgroundPattern, { size: number; shapes: TileShape[] }>()
+
+// One repeat of a pattern in px; shapes are drawn in the fill's ink color at their own alpha
+export function patternTile(pattern: BackgroundPattern): { size: number; shapes: TileShape[] } {
+  const cached = tiles.get(pattern)
+  if (cached) return cached
+  let tile: { size: number; shapes: TileShape[] }
+  if (pattern === "dots") {
+    tile = { size: 24, shapes: [{ kind: "circle", cx: 12, cy: 12, r: 1.5, alpha: 1 }] }
+  } else if (pattern === "grid") {
+    tile = {
+      size: 32,
+      shapes: [
+        { kind: "rect", x: 0, y: 0, width: 32, height: 1, alpha: 1 },
+        { kind: "rect", x: 0, y: 0, width: 1, height: 32, alpha: 1 },
+      ],
+    }
+  } else {
+    const random = mulberry32(0x5eed)
+    const shapes: TileShape[] = []
+    for (let i = 0; i < 160; i++) {
+      const size = random() < 0.8 ? 1 : 2
+      shapes.push({ kind: "rect", x: Math.floor(random() * 64), y: Math.floor(random() * 64), width: size, height: size, alpha: 0.3 + random() * 0.7 })
+    }
+    tile = { size: 64, shapes }
+  }
+  tiles.set(pattern, tile)
+  return tile
+}
+
+// SVG markup for a tile's shapes, used for the SVG export's <pattern> and the editor's CSS tile
+export function patternShapesSvg(pattern: BackgroundPattern, ink: string): string {
+  const fill = ink.replace(/"/g, "&quot;")
+  return patternTile(pattern)
+    .shapes.map((shape) =>
+      shape.kind === "circle"
+        ? `<circle cx="${shape.cx}" cy="${shape.cy}" r="${shape.r}" fill="${fill}" fill-opacity="${shape.alpha.toFixed(2)}"/>`
+        : `<rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" fill="${fill}" fill-opacity="${shape.alpha.toFixed(2)}"/>`,
+    )
+    .join("")
+}
+
+// CSS background for the editor preview. Photos are not covered here: their blur needs its own layer.
+export function backgroundCss(fill: BackgroundFill): React.CSSProperties {
+  switch (fill.kind) {
+    case "linear":
+      return { backgroundImage: `linear-gradient(${fill.angle}deg, ${fill.colors.join(", ")})` }
+    case "radial":
+      return { backgroundImage: `radial-gradient(circle at center, ${fill.colors.join(", ")})` }
+    case "pattern": {
+      const { size } = patternTile(fill.pattern)
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">${patternShapesSvg(fill.pattern, fill.ink)}</svg>`
+      return {
+        backgroundColor: fill.color,
+        backgroundImage: `url("data:image/svg+xml,${encodeURIComponent(svg)}")`,
+        backgroundSize: `${size}px ${size}px`,
+      }
+    }
+    case "photo":
+      return {}
+  }
+}
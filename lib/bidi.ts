@@ -0,0 +1,104 @@
+// Right-to-left and mixed-direction text. A compact take on the Unicode Bidirectional Algorithm
+// for single paragraphs without explicit embeddings: paragraph direction from the first strong
+// character, weak/neutral resolution, and visual reordering of a line's segments.
+
+export type Direction = "ltr" | "rtl"
+
+type BidiClass = "L" | "R" | "EN" | "AN" | "NSM" | "N"
+
+const RTL_CHAR = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc\u{10800}-\u{10fff}\u{1e800}-\u{1efff}]/u
+const ARABIC_DIGIT = /[\u0660-\u0669\u06f0-\u06f9]/
+const LETTER = /\p{L}/u
+const DIGIT = /\p{Nd}/u
+const MARK = /\p{M}/u
+
+function classify(ch: string): BidiClass {
+  if (ARABIC_DIGIT.test(ch)) return "AN"
+  if (DIGIT.test(ch)) return "EN"
+  if (MARK.test(ch)) return "NSM"
+  if (RTL_CHAR.test(ch)) return "R"
+  if (LETTER.test(ch)) return "L"
+  return "N"
+}
+
+// Direction of a paragraph from its first strong character; ltr when it has none
+export function paragraphDirection(text: string): Direction {
+  for (const ch of text) {
+    const type = classify(ch)
+    if (type === "L") return "ltr"
+    if (type === "R") return "rtl"
+  }
+  return "ltr"
+}
+
+export function hasRtlText(text: string): boolean {
+  return RTL_CHAR.test(text)
+}
+
+// Resolved embedding level for every code point of a line (even = ltr, odd = rtl)
+export function resolveLevels(text: string, base: Direction): number[] {
+  const chars = Array.from(text)
+  const baseLevel = base === "rtl" ? 1 : 0
+  const sos: "L" | "R" = base === "rtl" ? "R" : "L"
+  const types = chars.map(classify)
+
+  // W1: marks take the type of the preceding character
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] === "NSM") types[i] = i === 0 ? sos : types[i - 1]
+  }
+
+  // W7: European digits following left-to-right text behave as L
+  let lastStrong: "L" | "R" = sos
+  for (let i = 0; i < types.length; i++) {
+    const t = types[i]
+    if (t === "L" || t === "R") lastStrong = t
+    else if (t === "EN" && lastStrong === "L") types[i] = "L"
+  }
+
+  // N1/N2: neutrals between two same-direction sides take it; otherwise the paragraph direction.
+  // Numbers count as right-to-left for this purpose.
+  const strongOf = (t: BidiClass): "L" | "R" | null => (t === "L" ? "L" : t === "R" || t === "EN" || t === "AN" ? "R" : null)
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] !== "N") continue
+    let end = i
+    while (end < types.length && types[end] === "N") end++
+    const before = i === 0 ? sos : strongOf(types[i - 1]) ?? sos
+    const after = end === types.length ? sos : strongOf(types[end]) ?? sos
+    const resolved = before === after ? before : sos
+    for (let j = i; j < end; j++) types[j] = resolved
+    i = end - 1
+  }
+
+  // I1/I2: implicit levels
+  return types.map((t) => {
+    if (baseLevel === 0) {
+      if (t === "R") return 1
+      if (t === "EN" || t === "AN") return 2
+      return 0
+    }
+    return t === "L" || t === "EN" || t === "AN" ? 2 : 1
+  })
+}
+
+// L2: reorder items (in logical order, each with a level) into visual left-to-right order
+export function reorderVisually<T extends { level: number }>(items: T[]): T[] {
+  const result = [...items]
+  if (result.length === 0) return result
+  const maxLevel = Math.max(...result.map((item) => item.level))
+  const minOddLevel = Math.min(...result.map((item) => (item.level % 2 === 1 ? item.level : Infinity)))
+  for (let level = maxLevel; level >= minOddLevel && level > 0; level--) {
+    let i = 0
+    while (i < result.length) {
+      if (result[i].level < level) {
+        i++
+        continue
+      }
+      let end = i
+      while (end < result.length && result[end].level >= level) end++
+      const reversed = result.slice(i, end).reverse()
+      result.splice(i, end - i, ...reversed)
+      i = end
+    }
+  }
+  return result
+}
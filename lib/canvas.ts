@@ -0,0 +1,80 @@
+// Minimal canvas surface used by ImageGenerator.
+// Both the browser HTMLCanvasElement and the Node canvas from @napi-rs/canvas satisfy it,
+// so the same layout and drawing code runs on either side.
+export interface Canvas2DContext {
+  font: string
+  fillStyle: string | CanvasGradient | CanvasPattern
+  textAlign: CanvasTextAlign
+  textBaseline: CanvasTextBaseline
+  direction: CanvasDirection
+  // CSS length, e.g. "1.5px"; measureText includes it, so measuring and drawing agree
+  letterSpacing: string
+  shadowColor: string
+  shadowBlur: number
+  shadowOffsetX: number
+  shadowOffsetY: number
+  globalAlpha: number
+  filter: string
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void
+  clearRect(x: number, y: number, width: number, height: number): void
+  fillRect(x: number, y: number, width: number, height: number): void
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): CanvasGradient
+  createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): CanvasGradient
+  beginPath(): void
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number): void
+  roundRect(x: number, y: number, width: number, height: number, radii?: number | number[]): void
+  fill(): void
+  clip(): void
+  save(): void
+  restore(): void
+  drawImage(image: CanvasImage, dx: number, dy: number, dWidth: number, dHeight: number): void
+  measureText(text: string): TextMetrics
+  fillText(text: string, x: number, y: number, maxWidth?: number): void
+  getImageData(sx: number, sy: number, sw: number, sh: number): ImageData
+}
+
+// A decoded image drawImage accepts: an HTMLImageElement in the browser, an Image from @napi-rs/canvas on
+// the server. Both report their pixel size, which cropping and fitting need
+export type CanvasImage = CanvasImageSource & { width: number; height: number }
+
+// Loads an image (e.g. an avatar) for drawing; rejects when the source cannot be decoded
+export type ImageLoader = (src: string) => Promise<CanvasImage>
+
+export interface CanvasLike {
+  width: number
+  height: number
+  getContext(contextId: "2d"): Canvas2DContext | null
+  toDataURL(type?: string, quality?: number): string
+}
+
+// Decode a data URL produced by CanvasLike.toDataURL into raw bytes (works in Node and the browser)
+export function dataUrlToBytes(dataUrl: string) {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1)
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+// Encode raw bytes (e.g. an animated GIF) as a base64 data URL, the same shape toDataURL returns
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return `data:${mimeType};base64,${btoa(binary)}`
+}
+
+// Encode UTF-8 text (e.g. an SVG document) as a base64 data URL
+export function textToDataUrl(text: string, mimeType: string): string {
+  return bytesToDataUrl(new TextEncoder().encode(text), mimeType)
+}
+
+// Browser image loader; anonymous CORS so remote avatars do not taint the canvas
+export function loadBrowserImage(src: string): Promise<CanvasImage> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.crossOrigin = "anonymous"
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error("Could not load image"))
+    image.src = src
+  })
+}
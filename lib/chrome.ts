@@ -0,0 +1,145 @@
+import { splitGraphemes } from "./segmentation"
+
+// Window chrome drawn across the top of the card. Each style lists its shapes in card-relative
+// coordinates plus the height it occupies; the canvas painter, the SVG export and the editor
+// header all draw from the same shapes, and the layout keeps text below headerHeight.
+
+export type ChromeId = "macos" | "windows" | "terminal" | "browser" | "tweet" | "none"
+
+export type ChromeShape =
+  | { kind: "circle"; cx: number; cy: number; r: number; fill: string; alpha?: number }
+  | { kind: "rect"; x: number; y: number; width: number; height: number; radius?: number; fill: string; alpha?: number }
+  // y is the vertical middle of the text
+  | { kind: "text"; x: number; y: number; text: string; size: number; fill: string; alpha?: number; bold?: boolean; align: "left" | "center" | "right" }
+
+export interface ChromeContext {
+  width: number
+  textColor: string
+  cardColor: string
+  title: string
+}
+
+export interface ChromeStyle {
+  id: ChromeId
+  name: string
+  headerHeight: number
+  shapes(context: ChromeContext): ChromeShape[]
+}
+
+// UI font for titles and labels, independent of the snap's font
+export const CHROME_FONT = '-apple-system, "Segoe UI", Helvetica, Arial, sans-serif'
+
+const trafficLights = (x: number, y: number, r = 6, gap = 20): ChromeShape[] => [
+  { kind: "circle", cx: x, cy: y, r, fill: "#ff5f57" },
+  { kind: "circle", cx: x + gap, cy: y, r, fill: "#ffbd2e" },
+  { kind: "circle", cx: x + gap * 2, cy: y, r, fill: "#28ca42" },
+]
+
+// Windows caption buttons: minimize bar, maximize outline (four thin rects) and a close cross
+function windowsControls(right: number, y: number, color: string): ChromeShape[] {
+  const box = 10
+  const maxX = right - 82
+  return [
+    { kind: "rect", x: right - 128, y, width: box, height: 1, fill: color },
+    { kind: "rect", x: maxX, y: y - box / 2, width: box, height: 1, fill: color },
+    { kind: "rect", x: maxX, y: y + box / 2 - 1, width: box, height: 1, fill: color },
+    { kind: "rect", x: maxX, y: y - box / 2, width: 1, height: box, fill: color },
+    { kind: "rect", x: maxX + box - 1, y: y - box / 2, width: 1, height: box, fill: color },
+    { kind: "text", x: right - 26, y, text: "×", size: 18, fill: color, align: "center" },
+  ]
+}
+
+export const CHROME_STYLES: Record<ChromeId, ChromeStyle> = {
+  macos: {
+    id: "macos",
+    name: "macOS",
+    headerHeight: 56,
+    shapes: () => trafficLights(25, 25),
+  },
+  windows: {
+    id: "windows",
+    name: "Windows",
+    headerHeight: 56,
+    shapes: ({ width, textColor, title }) => [
+      { kind: "rect", x: 0, y: 0, width, height: 36, fill: textColor, alpha: 0.06 },
+      { kind: "rect", x: 14, y: 12, width: 12, height: 12, radius: 2, fill: "#0078d4" },
+      { kind: "text", x: 36, y: 18, text: title, size: 13, fill: textColor, align: "left" },
+      ...windowsControls(width, 18, textColor),
+    ],
+  },
+  terminal: {
+    id: "terminal",
+    name: "Terminal",
+    headerHeight: 80,
+    shapes: ({ width, textColor, title }) => [
+      { kind: "rect", x: 0, y: 0, width, height: 36, fill: textColor, alpha: 0.06 },
+      ...trafficLights(20, 18, 5, 18),
+      { kind: "text", x: width / 2, y: 18, text: `${title} — zsh`, size: 13, fill: textColor, alpha: 0.7, align: "center" },
+      { kind: "text", x: 24, y: 58, text: `~/snaps $ cat ${title.toLowerCase().replace(/\s+/g, "-")}.txt`, size: 13, fill: textColor, alpha: 0.55, align: "left" },
+    ],
+  },
+  browser: {
+    id: "browser",
+    name: "Browser",
+    headerHeight: 96,
+    shapes: ({ width, textColor, cardColor, title }) => [
+      { kind: "rect", x: 0, y: 0, width, height: 76, fill: textColor, alpha: 0.06 },
+      ...trafficLights(22, 22, 5, 18),
+      { kind: "rect", x: 84, y: 8, width: Math.min(220, width - 100), height: 30, radius: 8, fill: cardColor },
+      { kind: "text", x: 98, y: 23, text: title, size: 12, fill: textColor, align: "left" },
+      { kind: "rect", x: 14, y: 44, width: width - 28, height: 24, radius: 12, fill: cardColor },
+      { kind: "text", x: 30, y: 56, text: `https://${title.toLowerCase().replace(/[^a-z0-9]+/g, "") || "snap"}.app`, size: 11, fill: textColor, alpha: 0.6, align: "left" },
+    ],
+  },
+  tweet: {
+    id: "tweet",
+    name: "Tweet",
+    headerHeight: 88,
+    shapes: ({ width, textColor, title }) => [
+      { kind: "circle", cx: 44, cy: 44, r: 20, fill: textColor, alpha: 0.15 },
+      { kind: "text", x: 44, y: 44, text: (splitGraphemes(title)[0] ?? "").toUpperCase(), size: 16, fill: textColor, bold: true, align: "center" },
+      { kind: "text", x: 76, y: 36, text: title, size: 15, fill: textColor, bold: true, align: "left" },
+      { kind: "text", x: 76, y: 55, text: `@${title.toLowerCase().replace(/[^a-z0-9_]+/g, "")} · now`, size: 13, fill: textColor, alpha: 0.55, align: "left" },
+      { kind: "text", x: width - 28, y: 36, text: "···", size: 15, fill: textColor, alpha: 0.55, align: "right" },
+    ],
+  },
+  none: {
+    id: "none",
+    name: "None",
+    headerHeight: 24,
+    shapes: () => [],
+  },
+}
+
+export const DEFAULT_CHROME_TITLE = "Snap"
+
+// Shapes for a style moved to the card's position on the canvas
+export function chromeShapes(id: ChromeId, context: ChromeContext, offsetX = 0, offsetY = 0): ChromeShape[] {
+  return CHROME_STYLES[id].shapes(context).map((shape) =>
+    shape.kind === "circle"
+      ? { ...shape, cx: shape.cx + offsetX, cy: shape.cy + offsetY }
+      : { ...shape, x: shape.x + offsetX, y: shape.y + offsetY },
+  )
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const TEXT_ANCHOR = { left: "start", center: "middle", right: "end" } as const
+
+// SVG markup for chrome shapes, shared by the SVG export and the editor header
+export function chromeShapesSvg(shapes: ChromeShape[]): string {
+  return shapes
+    .map((shape) => {
+      const opacity = shape.alpha !== undefined ? ` fill-opacity="${shape.alpha}"` : ""
+      const fill = `fill="${escapeXml(shape.fill)}"${opacity}`
+      if (shape.kind === "circle") return `<circle cx="${shape.cx}" cy="${shape.cy}" r="${shape.r}" ${fill}/>`
+      if (shape.kind === "rect") {
+        const rx = shape.radius ? ` rx="${shape.radius}"` : ""
+        return `<rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}"${rx} ${fill}/>`
+      }
+      const weight = shape.bold ? ` font-weight="bold"` : ""
+      return `<text x="${shape.x}" y="${shape.y}" text-anchor="${TEXT_ANCHOR[shape.align]}" dominant-baseline="central" font-family="${escapeXml(CHROME_FONT)}" font-size="${shape.size}"${weight} ${fill}>${escapeXml(shape.text)}</text>`
+    })
+    .join("")
+}
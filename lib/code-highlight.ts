@@ -0,0 +1,246 @@
+// Fenced code blocks (```ts ... ```) and a small built-in tokenizer for syntax colors.
+// Code lines are kept verbatim: indentation is preserved and they are never reflowed.
+
+export type TokenType = "plain" | "keyword" | "string" | "comment" | "number" | "function" | "type" | "punctuation"
+
+export interface CodeToken {
+  type: TokenType
+  text: string
+}
+
+export type SyntaxPalette = Record<Exclude<TokenType, "plain">, string>
+
+export const SYNTAX_PALETTES: Record<"light" | "dark", SyntaxPalette> = {
+  light: {
+    keyword: "#A626A4",
+    string: "#50A14F",
+    comment: "#A0A1A7",
+    number: "#986801",
+    function: "#4078F2",
+    type: "#C18401",
+    punctuation: "#696C77",
+  },
+  dark: {
+    keyword: "#C678DD",
+    string: "#98C379",
+    comment: "#7F848E",
+    number: "#D19A66",
+    function: "#61AFEF",
+    type: "#E5C07B",
+    punctuation: "#ABB2BF",
+  },
+}
+
+// Pick the palette that contrasts with a card color ("#RRGGBB" or "#RGB")
+export function paletteForBackground(color: string | undefined): SyntaxPalette {
+  const hex = (color || "").replace("#", "")
+  const full = hex.length === 3 ? hex.replace(/./g, (c) => c + c) : hex
+  if (!/^[0-9a-f]{6}$/i.test(full)) return SYNTAX_PALETTES.light
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16))
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255
+  return luminance < 0.5 ? SYNTAX_PALETTES.dark : SYNTAX_PALETTES.light
+}
+
+export type SnapBlock = { kind: "prose"; text: string } | { kind: "code"; lang: string; lines: string[] }
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/
+
+// Split snap text into prose and fenced code blocks. An unclosed fence runs to the end of the text.
+export function parseFencedBlocks(text: string): SnapBlock[] {
+  const blocks: SnapBlock[] = []
+  let prose: string[] = []
+  let code: { lang: string; lines: string[] } | null = null
+
+  for (const line of text.split("\n")) {
+    const fence = line.match(FENCE)
+    if (code) {
+      if (fence && fence[1] === "") {
+        blocks.push({ kind: "code", ...code })
+        code = null
+      } else {
+        code.lines.push(line.replace(/\t/g, "    "))
+      }
+      continue
+    }
+    if (fence) {
+      if (prose.length > 0) blocks.push({ kind: "prose", text: prose.join("\n") })
+      prose = []
+      code = { lang: fence[1].toLowerCase(), lines: [] }
+      continue
+    }
+    prose.push(line)
+  }
+
+  if (code) blocks.push({ kind: "code", ...code })
+  else if (prose.length > 0) blocks.push({ kind: "prose", text: prose.join("\n") })
+  return blocks
+}
+
+interface LanguageRules {
+  keywords: Set<string>
+  types?: Set<string>
+  lineComment?: string
+  blockComment?: [string, string]
+  // Delimiters of strings that may span lines (template literals, triple quotes)
+  multilineStrings?: string[]
+  quotes: string[]
+}
+
+const words = (list: string) => new Set(list.split(" "))
+
+const JS_RULES: LanguageRules = {
+  keywords: words(
+    "const let var function return if else for while do switch case break continue new class extends import export from default async await try catch finally throw typeof instanceof in of this super null undefined true false void yield as interface type enum implements public private protected readonly static declare",
+  ),
+  types: words("string number boolean any unknown never object Promise Array Record Map Set Date Error"),
+  lineComment: "//",
+  blockComment: ["/*", "*/"],
+  multilineStrings: ["`"],
+  quotes: ['"', "'"],
+}
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  js: JS_RULES,
+  python: {
+    keywords: words(
+      "def return if elif else for while in not and or is import from as class try except finally raise with lambda yield pass break continue global nonlocal None True False async await self",
+    ),
+    types: words("int str float bool list dict tuple set bytes object"),
+    lineComment: "#",
+    multilineStrings: ['"""', "'''"],
+    quotes: ['"', "'"],
+  },
+  json: {
+    keywords: words("true false null"),
+    quotes: ['"'],
+  },
+  bash: {
+    keywords: words("if then else elif fi for in do done while case esac function return export local echo cd sudo"),
+    lineComment: "#",
+    quotes: ['"', "'"],
+  },
+  css: {
+    keywords: words("important media import from to"),
+    blockComment: ["/*", "*/"],
+    quotes: ['"', "'"],
+  },
+  go: {
+    keywords: words(
+      "func package import return if else for range switch case default break continue go defer select chan map struct interface type var const nil true false",
+    ),
+    types: words("string int int64 float64 bool error byte rune any"),
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    multilineStrings: ["`"],
+    quotes: ['"', "'"],
+  },
+  rust: {
+    keywords: words(
+      "fn let mut pub use mod struct enum impl trait return if else for while loop match in as ref self Self const static where async await move true false crate super",
+    ),
+    types: words("String str i32 i64 u8 u32 u64 usize f32 f64 bool Option Result Vec Box"),
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    quotes: ['"'],
+  },
+}
+
+const ALIASES: Record<string, string> = {
+  ts: "js",
+  tsx: "js",
+  typescript: "js",
+  javascript: "js",
+  jsx: "js",
+  py: "python",
+  sh: "bash",
+  shell: "bash",
+  zsh: "bash",
+  rs: "rust",
+  golang: "go",
+}
+
+function rulesFor(lang: string): LanguageRules | null {
+  return LANGUAGES[ALIASES[lang] || lang] || null
+}
+
+// Tokenize a whole code block line by line. Block comments and multi-line strings carry over between lines.
+export function tokenizeCode(lines: string[], lang: string): CodeToken[][] {
+  const rules = rulesFor(lang)
+  if (!rules) return lines.map((line) => (line ? [{ type: "plain", text: line }] : []))
+
+  // Open multi-line construct from a previous line: its closing delimiter and token type
+  let open: { close: string; type: TokenType } | null = null
+
+  return lines.map((line) => {
+    const tokens: CodeToken[] = []
+    const push = (type: TokenType, text: string) => {
+      if (!text) return
+      const last = tokens[tokens.length - 1]
+      if (last && last.type === type) last.text += text
+      else tokens.push({ type, text })
+    }
+
+    let i = 0
+    while (i < line.length) {
+      if (open) {
+        const end = line.indexOf(open.close, i)
+        if (end === -1) {
+          push(open.type, line.slice(i))
+          i = line.length
+        } else {
+          push(open.type, line.slice(i, end + open.close.length))
+          i = end + open.close.length
+          open = null
+        }
+        continue
+      }
+
+      const rest = line.slice(i)
+      if (rules.lineComment && rest.startsWith(rules.lineComment)) {
+        push("comment", rest)
+        break
+      }
+      if (rules.blockComment && rest.startsWith(rules.blockComment[0])) {
+        open = { close: rules.blockComment[1], type: "comment" }
+        push("comment", rules.blockComment[0])
+        i += rules.blockComment[0].length
+        continue
+      }
+      const multi = rules.multilineStrings?.find((q) => rest.startsWith(q))
+      if (multi) {
+        open = { close: multi, type: "string" }
+        push("string", multi)
+        i += multi.length
+        continue
+      }
+      const quote = rules.quotes.find((q) => rest.startsWith(q))
+      if (quote) {
+        let j = i + 1
+        while (j < line.length && line[j] !== quote) j += line[j] === "\\" ? 2 : 1
+        push("string", line.slice(i, j + 1))
+        i = j + 1
+        continue
+      }
+      const number = rest.match(/^(0x[\da-f]+|\d[\d_]*(\.\d+)?(e[+-]?\d+)?)/i)
+      if (number && !/[\w$]/.test(line[i - 1] || "")) {
+        push("number", number[0])
+        i += number[0].length
+        continue
+      }
+      const word = rest.match(/^[A-Za-z_$][\w$]*/)
+      if (word) {
+        const w = word[0]
+        const next = line.slice(i + w.length).trimStart()[0]
+        if (rules.keywords.has(w)) push("keyword", w)
+        else if (rules.types?.has(w) || /^[A-Z][a-z]\w*$/.test(w)) push("type", w)
+        else if (next === "(") push("function", w)
+        else push("plain", w)
+        i += w.length
+        continue
+      }
+      push(/[{}()[\];,.:=<>+\-*/%!&|?^~]/.test(line[i]) ? "punctuation" : "plain", line[i])
+      i += 1
+    }
+    return tokens
+  })
+}
@@ -0,0 +1,132 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { SYNTAX_PALETTES } from "./code-highlight"
+import { editorImageOptions, exportOptions, fitEditorCard, type EditorCard } from "./editor-layout"
+import { ImageGenerator, type CardLayout } from "./image-generator"
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE } from "./layout-template"
+import { createServerCanvas } from "./server-canvas"
+import { snapMetadataFor } from "./snap-metadata"
+
+// Editor states, as app/page.tsx resolves them from its controls
+const EDITOR_CARDS: Array<[string, EditorCard]> = [
+  [
+    "default",
+    {
+      fontFamily: '"JetBrains Mono", monospace',
+      theme: { backgroundColor: "#F3EBDD", cardColor: "#EFE3CF", textColor: "#000000", syntaxColors: SYNTAX_PALETTES.light },
+      glass: false,
+      chrome: "macos",
+      chromeTitle: "snap.ts",
+      align: "left",
+      typography: { lineHeight: 1.6, letterSpacing: 0, paragraphSpacing: 0.5, fontWeight: 400 },
+      template: DEFAULT_TEMPLATE,
+    },
+  ],
+  [
+    "justified terminal on glass",
+    {
+      fontFamily: '"Inter", sans-serif',
+      theme: { backgroundColor: "#0F0F0F", cardColor: "#1A1A1A", textColor: "#FFFFFF", syntaxColors: SYNTAX_PALETTES.dark },
+      background: { kind: "pattern", pattern: "dots", color: "#0F0F0F", ink: "rgba(255,255,255,0.12)" },
+      glass: true,
+      chrome: "terminal",
+      chromeTitle: "~/projects/snap",
+      align: "justify",
+      typography: { lineHeight: 1.4, letterSpacing: 0.02, paragraphSpacing: 1, fontWeight: 600 },
+      template: DEFAULT_TEMPLATE,
+    },
+  ],
+  ...BUILT_IN_TEMPLATES.slice(1).map((template): [string, EditorCard] => [
+    `${template.id} template`,
+    {
+      fontFamily: '"JetBrains Mono", monospace',
+      theme: { backgroundColor: "#FFFFFF", cardColor: "#F5F5F5", textColor: "#000000", syntaxColors: SYNTAX_PALETTES.light },
+      glass: false,
+      chrome: template.chrome.style ?? "browser",
+      chromeTitle: template.chrome.title ?? "example.com",
+      align: template.body.align ?? "center",
+      typography: { lineHeight: 1.6, letterSpacing: 0, paragraphSpacing: 0.5, fontWeight: 400 },
+      template,
+    },
+  ]),
+]
+
+const SAMPLES = [
+  "Short line",
+  "The quick brown fox jumps over the lazy dog. ".repeat(12).trim(),
+  "First paragraph with a few words in it.\n\nSecond paragraph, which is a little longer and has to wrap across several lines of the card.",
+  "```ts\nconst answer = compute({ deeply: { nested: [1, 2, 3] } }).map((value) => value * 2)\n```\nAnd a line after the code.",
+  "word ".repeat(2000).trim(),
+]
+
+const CARDS = [
+  [640, 400],
+  [420, 520],
+  [300, 300],
+]
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Where every run of every line sits
+const lineBoxes = (layout: CardLayout) =>
+  layout.lines.map((line) => ({
+    y: round(line.y),
+    runs: line.runs.map((run) => ({ text: run.text, x: round(run.x), baseline: round(run.baseline), width: round(run.width) })),
+  }))
+
+// The visible runs of an SVG export: text and anchor, in document order
+function svgRuns(svg: string) {
+  return [...svg.matchAll(/<text xml:space="preserve" x="([^"]*)" y="([^"]*)"[^>]*>([^<]*)<\/text>/g)].map(([, x, y, text]) => ({
+    text: text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&amp;/g, "&"),
+    x: Number(x),
+    baseline: Number(y),
+  }))
+}
+
+describe("fitEditorCard", () => {
+  // The preview and the download menu each draw on their own canvas
+  let preview: ImageGenerator
+  let exporter: ImageGenerator
+
+  beforeAll(async () => {
+    preview = new ImageGenerator(await createServerCanvas())
+    exporter = new ImageGenerator(await createServerCanvas())
+  })
+
+  // Every card size with the default card, every other card at one size
+  const cases = EDITOR_CARDS.flatMap(([name, card], index) =>
+    (index === 0 ? CARDS : CARDS.slice(1, 2)).map(([width, height]) => ({ name, card, width, height })),
+  )
+
+  for (const { name, card, width, height } of cases) {
+    for (const text of SAMPLES) {
+      it(`exports the ${name} card like its ${width}×${height} preview: ${text.slice(0, 24)}…`, async () => {
+        const { layout, fit } = fitEditorCard(preview, text, editorImageOptions(card), width, height, 16)
+
+        // The download menu's path: the page hands it layoutOptions, it adds the snap metadata
+        const options = exportOptions(editorImageOptions(card), fit)
+        const metadata = snapMetadataFor(text, options)
+        const exported = exporter.layout(text, { ...options, metadata })
+        expect(exported.fontSize).toBe(layout.fontSize)
+        expect(exported.card).toEqual(layout.card)
+        expect(exported.chrome).toEqual(layout.chrome)
+        expect(lineBoxes(exported)).toEqual(lineBoxes(layout))
+
+        const dataUrl = await exporter.generateImage(text, { ...options, metadata, format: "svg" })
+        const svg = Buffer.from(dataUrl.split(",")[1], "base64").toString("utf8")
+        // The SVG skips whitespace-only runs (they are positioned, not drawn) and anchors right-to-left
+        // runs at their right edge
+        const drawn = layout.lines
+          .flatMap((line) => line.runs)
+          .filter((run) => run.text.trim())
+          .map((run) => ({ text: run.text, x: round(run.direction === "rtl" ? run.x + run.width : run.x), baseline: round(run.baseline) }))
+        expect(svgRuns(svg).slice(-drawn.length)).toEqual(drawn)
+      })
+    }
+  }
+
+  it("falls back to a clipped layout at the minimum size when the text cannot fit", () => {
+    const { fit } = fitEditorCard(preview, "word ".repeat(2000).trim(), editorImageOptions(EDITOR_CARDS[0][1]), 300, 300, 16)
+    expect(fit.strict).toBe(false)
+    expect(fit.autoFit).toBe(false)
+  })
+})
@@ -0,0 +1,79 @@
+import type { BackgroundFill } from "./backgrounds"
+import { CHROME_STYLES, type ChromeId } from "./chrome"
+import { ImageGenerator, TextOverflowError, type CardLayout, type ImageOptions, type TextAlign } from "./image-generator"
+import { DEFAULT_TEMPLATE, type LayoutTemplate } from "./layout-template"
+
+// How the editor fits text into its card: the canvas size and font sizing, on top of the editor's other
+// ImageOptions. The preview is laid out with `{ ...options, ...fit }` and every export renders from that
+// same object, so exports break lines exactly where the card on screen does.
+export type CardFit = Required<Pick<ImageOptions, "width" | "height" | "fontSize" | "autoFit" | "strict">>
+
+// The editor's choices for the card, already resolved against the selected template
+export interface EditorCard {
+  fontFamily: string
+  theme: Pick<ImageOptions, "backgroundColor" | "cardColor" | "textColor" | "syntaxColors">
+  background?: BackgroundFill
+  glass: boolean
+  chrome: ChromeId
+  chromeTitle: string
+  align: TextAlign
+  typography: Required<Pick<ImageOptions, "lineHeight" | "letterSpacing" | "paragraphSpacing" | "fontWeight">>
+  template: LayoutTemplate
+}
+
+// Everything about the card except its size and font sizing, which fitEditorCard derives from the
+// editor card element
+export function editorImageOptions(card: EditorCard): Partial<ImageOptions> {
+  return {
+    fontFamily: card.fontFamily,
+    backgroundColor: card.theme.backgroundColor,
+    cardColor: card.theme.cardColor,
+    textColor: card.theme.textColor,
+    syntaxColors: card.theme.syntaxColors,
+    background: card.background,
+    cardStyle: card.glass ? "glass" : "solid",
+    chrome: card.chrome,
+    chromeTitle: card.chromeTitle,
+    textAlign: card.align,
+    ...card.typography,
+    template: card.template,
+  }
+}
+
+// The options the preview was laid out with; exports render from exactly these
+export const exportOptions = (options: Partial<ImageOptions>, fit: CardFit | null): Partial<ImageOptions> => ({
+  ...options,
+  ...fit,
+})
+
+// Lay out `text` for an editor card of `cardWidth`×`cardHeight` CSS pixels. The font size is the largest
+// that fits (strict mode), up to `preferredFontSize` or more for short text in a tall card.
+export function fitEditorCard(
+  generator: ImageGenerator,
+  text: string,
+  options: Partial<ImageOptions>,
+  cardWidth: number,
+  cardHeight: number,
+  preferredFontSize: number,
+): { layout: CardLayout; fit: CardFit } {
+  const template = options.template ?? DEFAULT_TEMPLATE
+  const chrome = template.chrome.style ?? options.chrome ?? "none"
+  // The exported canvas is the card plus the template's inset on every side
+  const inset = template.card.inset
+  const innerAvailable = Math.max(0, cardHeight - CHROME_STYLES[chrome].headerHeight)
+  const fit: CardFit = {
+    width: cardWidth + inset * 2,
+    height: cardHeight + inset * 2,
+    fontSize: Math.max(preferredFontSize, Math.min(96, Math.ceil(innerAvailable / 8))),
+    autoFit: false,
+    strict: true,
+  }
+  try {
+    return { layout: generator.layout(text, { ...options, ...fit }), fit }
+  } catch (error) {
+    if (!(error instanceof TextOverflowError)) throw error
+    // Too long for the card even at the minimum size: lay out at that size and let the card clip it
+    const overflowFit = { ...fit, strict: false, fontSize: error.fontSize }
+    return { layout: generator.layout(text, { ...options, ...overflowFit }), fit: overflowFit }
+  }
+}
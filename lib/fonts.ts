@@ -0,0 +1,106 @@
+// Font registry. Built-in faces are loaded by next/font in app/layout.tsx, which exposes each one as a
+// CSS variable; canvas cannot read CSS variables, so ImageGenerator maps them back to family names here.
+// Uploaded fonts are kept in localStorage as data URLs and registered with document.fonts as FontFaces.
+
+export interface FontOption {
+  id: string
+  name: string
+  // CSS font-family stack, as used by the editor and passed to ImageOptions.fontFamily
+  css: string
+  custom?: boolean
+}
+
+// Every next/font variable declared in app/layout.tsx and the family it loads. Server renders register
+// the same families from npm packages (see lib/server-canvas.ts) and refuse to run without any of them.
+export const FONT_VARIABLES: Record<string, string> = {
+  "--font-geist-sans": "Geist",
+  "--font-geist-mono": "Geist Mono",
+  "--font-jetbrains-mono": "JetBrains Mono",
+  "--font-fira-code": "Fira Code",
+  "--font-source-code-pro": "Source Code Pro",
+  "--font-space-mono": "Space Mono",
+  "--font-inconsolata": "Inconsolata",
+  "--font-ibm-plex-mono": "IBM Plex Mono",
+  "--font-dm-mono": "DM Mono",
+  "--font-playfair": "Playfair Display",
+  "--font-cormorant": "Cormorant Garamond",
+  "--font-abril": "Abril Fatface",
+  "--font-libre-baskerville": "Libre Baskerville",
+}
+
+export const BUILT_IN_FONTS: FontOption[] = [
+  { id: "sfmono", name: "SF Mono", css: '"SF Mono", "Monaco", "Inconsolata", "Roboto Mono", monospace' },
+  { id: "courier", name: "Courier New", css: '"Courier New", "Courier", monospace' },
+  { id: "monaco", name: "Monaco", css: '"Monaco", "Menlo", "Ubuntu Mono", monospace' },
+  { id: "fira", name: "Fira Code", css: "var(--font-fira-code), monospace" },
+  { id: "jetbrains", name: "JetBrains Mono", css: "var(--font-jetbrains-mono), monospace" },
+  { id: "sourcecode", name: "Source Code Pro", css: "var(--font-source-code-pro), monospace" },
+  { id: "spacemono", name: "Space Mono", css: "var(--font-space-mono), monospace" },
+  { id: "inconsolata", name: "Inconsolata", css: "var(--font-inconsolata), monospace" },
+  { id: "ibmplex", name: "IBM Plex Mono", css: "var(--font-ibm-plex-mono), monospace" },
+  { id: "dmmono", name: "DM Mono", css: "var(--font-dm-mono), monospace" },
+  { id: "robotomono", name: "Roboto Mono", css: '"Roboto Mono", "Courier New", monospace' },
+]
+
+// Replace next/font variables with the quoted family each one loads; unknown variables are left as-is
+export function resolveFontVariables(fontFamily: string): string {
+  return fontFamily.replace(/var\((--[\w-]+)\)/g, (token, name: string) =>
+    FONT_VARIABLES[name] ? `"${FONT_VARIABLES[name]}"` : token,
+  )
+}
+
+// A font uploaded in the editor. `family` is a generated name so it never collides with an installed font.
+export interface CustomFont {
+  id: string
+  name: string
+  family: string
+  // data: URL of the .woff2/.ttf file
+  src: string
+}
+
+export const CUSTOM_FONT_ACCEPT = ".woff2,.ttf,font/woff2,font/ttf"
+
+const CUSTOM_FONT_EXTENSION = /\.(woff2|ttf)$/i
+
+export function customFontOption(font: CustomFont): FontOption {
+  return { id: font.id, name: font.name, css: `"${font.family}", monospace`, custom: true }
+}
+
+// Read an uploaded file into a CustomFont and register it; rejects when the file is not a font the browser can load
+export async function loadCustomFontFile(file: File): Promise<CustomFont> {
+  if (!CUSTOM_FONT_EXTENSION.test(file.name)) throw new Error(`${file.name} is not a .woff2 or .ttf file`)
+  const src = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => (typeof reader.result === "string" ? resolve(reader.result) : reject(reader.error))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+  const id = `custom-${Date.now().toString(36)}`
+  const font = { id, name: file.name.replace(CUSTOM_FONT_EXTENSION, ""), family: `snap-${id}`, src }
+  try {
+    await registerCustomFont(font)
+  } catch {
+    throw new Error(`${file.name} could not be loaded as a font`)
+  }
+  return font
+}
+
+// Add the face to document.fonts once it has loaded, so canvas text drawn afterwards uses it
+export async function registerCustomFont(font: CustomFont): Promise<void> {
+  const face = new FontFace(font.family, `url(${font.src})`)
+  await face.load()
+  document.fonts.add(face)
+}
+
+// Stored fonts, dropping entries that are not shaped like a CustomFont
+export function parseCustomFonts(data: unknown): CustomFont[] {
+  if (!Array.isArray(data)) return []
+  return data.filter(
+    (font): font is CustomFont =>
+      typeof font?.id === "string" &&
+      typeof font.name === "string" &&
+      typeof font.family === "string" &&
+      typeof font.src === "string" &&
+      font.src.startsWith("data:"),
+  )
+}
@@ -0,0 +1,34 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// Write through a temp file renamed over the original, so readers and crashes never leave half a file
+export async function writeFileAtomic(file: string, data: string | Uint8Array): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const temp = `${file}.${process.pid}.tmp`
+  try {
+    const handle = await fs.open(temp, "w")
+    try {
+      await handle.writeFile(data)
+      // On disk before the rename makes it visible, so a crash cannot leave an empty file
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+    await fs.rename(temp, file)
+  } catch (e) {
+    await fs.unlink(temp).catch(() => {})
+    throw e
+  }
+}
+
+// Runs tasks one at a time in the order they were queued
+export class TaskQueue {
+  private tail: Promise<unknown> = Promise.resolve()
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task)
+    // A failed task must not block the ones queued after it
+    this.tail = result.catch(() => {})
+    return result
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import path from "path"
+import type { z } from "zod"
+import { JsonFileHistoryStore } from "./json-file-store"
+import { MemoryHistoryStore } from "./memory-store"
+import type { HistoryStore } from "./schema"
+import { SqliteHistoryStore } from "./sqlite-store"
+
+export {
+  byNewest,
+  normalizeSnap,
+  savedSnapSchema,
+  snapPatchSchema,
+  syncRecordSchema,
+  type HistoryStore,
+  type SnapPatch,
+} from "./schema"
+export { JsonFileHistoryStore, MemoryHistoryStore, SqliteHistoryStore }
+
+const DATA_DIR = path.join(process.cwd(), "data")
+
+// HISTORY_STORE picks the backend: "json" (default, data/history.json), "sqlite" (data/history.sqlite)
+// or "memory" (nothing written; history resets with the process)
+function createHistoryStore(): HistoryStore {
+  const kind = process.env.HISTORY_STORE || "json"
+  switch (kind) {
+    case "json":
+      return new JsonFileHistoryStore(path.join(DATA_DIR, "history.json"))
+    case "sqlite":
+      return new SqliteHistoryStore(path.join(DATA_DIR, "history.sqlite"))
+    case "memory":
+      return new MemoryHistoryStore()
+    default:
+      throw new Error(`Unknown HISTORY_STORE "${kind}"; use json, sqlite or memory`)
+  }
+}
+
+// One store per server process. Next bundles each route separately, so it lives on globalThis rather
+// than in this module, which may be instantiated once per route; the store's write queue must be shared.
+const globalForHistory = globalThis as { historyStore?: HistoryStore }
+
+export function getHistoryStore(): HistoryStore {
+  globalForHistory.historyStore ??= createHistoryStore()
+  return globalForHistory.historyStore
+}
+
+// Parse and validate a JSON request body; on failure `response` is the 400 to return
+export async function parseRequest<T>(
+  request: Request,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): Promise<{ ok: true; data: T } | { ok: false; response: NextResponse }> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return { ok: false, response: NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 }) }
+  }
+  const parsed = schema.safeParse(body)
+  if (!parsed.success) {
+    return { ok: false, response: NextResponse.json({ ok: false, error: "Invalid payload" }, { status: 400 }) }
+  }
+  return { ok: true, data: parsed.data }
+}
@@ -0,0 +1,112 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { POST } from "@/app/api/history/route"
+import type { SavedSnap } from "../storage"
+import { JsonFileHistoryStore } from "./json-file-store"
+import { TOMBSTONE_TTL, type HistoryStore } from "./schema"
+
+const snap = (id: string, timestamp = Date.now()): SavedSnap => ({ id, text: `Snap ${id}`, timestamp, title: id, tags: [] })
+
+const readFile = async (file: string) => JSON.parse(await fs.readFile(file, "utf8")) as { snaps: SavedSnap[] }
+
+describe("JsonFileHistoryStore", () => {
+  let dir: string
+  let file: string
+  let store: JsonFileHistoryStore
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "history-"))
+    file = path.join(dir, "history.json")
+    store = new JsonFileHistoryStore(file)
+  })
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    delete (globalThis as { historyStore?: HistoryStore }).historyStore
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it("loses no write when many POSTs arrive at once", async () => {
+    // The route resolves its store from globalThis (see getHistoryStore)
+    ;(globalThis as { historyStore?: HistoryStore }).historyStore = store
+    const ids = Array.from({ length: 100 }, (_, i) => `snap-${i}`)
+    const responses = await Promise.all(
+      ids.map((id, i) =>
+        POST(
+          new Request("http://localhost/api/history", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(snap(id, 1_000 + i)),
+          }),
+        ),
+      ),
+    )
+    expect(responses.map((res) => res.status)).toEqual(ids.map(() => 200))
+    expect((await store.list()).map((s) => s.id).sort()).toEqual([...ids].sort())
+    expect((await readFile(file)).snaps).toHaveLength(ids.length)
+    // No temp files are left behind
+    expect(await fs.readdir(dir)).toEqual(["history.json", "history.json.bak"])
+  })
+
+  it("keeps concurrent upserts, updates and removals consistent", async () => {
+    await store.upsert([snap("a", 1), snap("b", 2), snap("c", 3)])
+    await Promise.all([
+      store.upsert([snap("d", 4)]),
+      store.update("a", { title: "renamed" }),
+      store.remove(["b"]),
+      store.upsert([snap("e", 5)]),
+    ])
+    const snaps = await store.list()
+    expect(snaps.map((s) => s.id)).toEqual(["e", "d", "c", "a"])
+    expect(snaps.find((s) => s.id === "a")?.title).toBe("renamed")
+    expect((await store.records()).find((r) => r.id === "b")).toMatchObject({ deleted: true })
+  })
+
+  it("quarantines a corrupt file and restores the history from the backup", async () => {
+    await store.upsert([snap("a", 1)])
+    // The second write copies the first into history.json.bak
+    await store.upsert([snap("b", 2)])
+    await fs.writeFile(file, "{ not json")
+
+    expect((await store.list()).map((s) => s.id)).toEqual(["a"])
+    const files = await fs.readdir(dir)
+    const quarantined = files.filter((name) => name.startsWith("history.json.corrupt-"))
+    expect(quarantined).toHaveLength(1)
+    expect(await fs.readFile(path.join(dir, quarantined[0]), "utf8")).toBe("{ not json")
+    // The restored history is written back, so the next read needs no recovery
+    expect((await readFile(file)).snaps.map((s) => s.id)).toEqual(["a"])
+
+    await store.upsert([snap("c", 3)])
+    expect((await store.list()).map((s) => s.id)).toEqual(["c", "a"])
+  })
+
+  it("starts over when the backup is unreadable too", async () => {
+    await fs.writeFile(file, JSON.stringify({ snaps: "nope" }))
+    await fs.writeFile(`${file}.bak`, "also broken")
+
+    expect(await store.list()).toEqual([])
+    expect((await fs.readdir(dir)).some((name) => name.startsWith("history.json.corrupt-"))).toBe(true)
+    expect(await readFile(file)).toEqual({ snaps: [], tombstones: [], sequence: 0 })
+  })
+
+  it("never gives out the sequence number of an expired tombstone again", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    await store.upsert([snap("a", 1), snap("b", 2)])
+    await store.remove(["b"])
+    // A client that has seen everything up to the deletion
+    const { cursor } = await store.merge([])
+    vi.setSystemTime(Date.now() + TOMBSTONE_TTL + 1)
+    await store.upsert([snap("c", 3)])
+
+    const changes = await store.merge([], cursor)
+    expect(changes.records.map((r) => r.id)).toEqual(["c"])
+    expect(changes.cursor).toBe(cursor + 1)
+  })
+
+  it("drops invalid entries instead of the whole file", async () => {
+    await fs.writeFile(file, JSON.stringify({ snaps: [snap("good", 1), { id: "bad" }] }))
+    expect((await store.list()).map((s) => s.id)).toEqual(["good"])
+  })
+})
@@ -0,0 +1,191 @@
+import { promises as fs } from "fs"
+import { z } from "zod"
+import { isTombstone, nextVersion, tombstoneOf, type SyncRecord } from "../snap-versions"
+import type { SavedSnap } from "../storage"
+import { TaskQueue, writeFileAtomic } from "./files"
+import {
+  applyChange,
+  byNewest,
+  changesSince,
+  lastSequence,
+  liveSnaps,
+  mergeRecords,
+  normalizeSnap,
+  savedSnapSchema,
+  tombstoneSchema,
+  type HistoryStore,
+  type SequencedRecords,
+  type SnapPatch,
+  type SyncChanges,
+} from "./schema"
+
+// The whole history in one JSON file (data/history.json by default), tombstones in a separate list
+// next to the snaps and the sync sequence counter. Every mutation is a queued read-modify-write of the file that keeps the previous
+// version as <file>.bak. An unreadable file is moved aside and the history restored from that backup.
+
+class CorruptHistoryError extends Error {
+  constructor(readonly file: string) {
+    super(`${file} is not a valid history file`)
+    this.name = "CorruptHistoryError"
+  }
+}
+
+const historyFileSchema = z.object({
+  snaps: z.array(z.unknown()),
+  tombstones: z.array(z.unknown()).default([]),
+  sequence: z.number().int().nonnegative().optional(),
+})
+
+const emptyHistory = (): SequencedRecords => ({ records: new Map(), sequence: 0 })
+
+// The history stored in `file`, or null when it does not exist. Entries that fail validation are
+// dropped rather than failing the whole history.
+async function parseHistoryFile(file: string): Promise<SequencedRecords | null> {
+  let raw: string
+  try {
+    raw = await fs.readFile(file, "utf8")
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw e
+  }
+  let data: unknown
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    throw new CorruptHistoryError(file)
+  }
+  const parsed = historyFileSchema.safeParse(data)
+  if (!parsed.success) throw new CorruptHistoryError(file)
+  const valid = <T>(schema: z.ZodType<T>, entries: unknown[]) =>
+    entries.flatMap((entry) => {
+      const result = schema.safeParse(entry)
+      return result.success ? [result.data] : []
+    })
+  const records = [...valid(savedSnapSchema, parsed.data.snaps), ...valid(tombstoneSchema, parsed.data.tombstones)]
+  return {
+    records: new Map(records.map((record) => [record.id, record])),
+    sequence: Math.max(parsed.data.sequence ?? 0, lastSequence(records)),
+  }
+}
+
+const serialize = ({ records, sequence }: SequencedRecords) =>
+  JSON.stringify(
+    {
+      snaps: liveSnaps(records.values()).sort(byNewest),
+      tombstones: [...records.values()].filter(isTombstone),
+      sequence,
+    },
+    null,
+    2,
+  )
+
+export class JsonFileHistoryStore implements HistoryStore {
+  private readonly queue = new TaskQueue()
+  private readonly backup: string
+
+  constructor(private readonly file: string) {
+    this.backup = `${file}.bak`
+  }
+
+  async list(): Promise<SavedSnap[]> {
+    return liveSnaps(await this.records()).sort(byNewest)
+  }
+
+  async get(id: string): Promise<SavedSnap | undefined> {
+    return (await this.list()).find((snap) => snap.id === id)
+  }
+
+  async upsert(snaps: SavedSnap[]): Promise<void> {
+    await this.mutate((records) => {
+      for (const snap of snaps) records.set(snap.id, normalizeSnap({ ...snap, ...nextVersion(records.get(snap.id)) }))
+    })
+  }
+
+  async update(id: string, changes: SnapPatch): Promise<SavedSnap | undefined> {
+    const written = await this.mutate((records) => {
+      const current = records.get(id)
+      if (!current || isTombstone(current)) return
+      records.set(id, normalizeSnap({ ...current, ...changes, ...nextVersion(current) }))
+    })
+    const snap = written.records.get(id)
+    return snap && !isTombstone(snap) ? snap : undefined
+  }
+
+  async remove(ids: string[]): Promise<number> {
+    let count = 0
+    await this.mutate((records) => {
+      for (const id of new Set(ids)) {
+        const current = records.get(id)
+        if (!current || isTombstone(current)) continue
+        records.set(id, tombstoneOf(current))
+        count++
+      }
+    })
+    return count
+  }
+
+  async clear(): Promise<number> {
+    let count = 0
+    await this.mutate((records) => {
+      for (const snap of liveSnaps(records.values())) {
+        records.set(snap.id, tombstoneOf(snap))
+        count++
+      }
+    })
+    return count
+  }
+
+  async records(): Promise<SyncRecord[]> {
+    // Renames are atomic, so reads normally skip the queue; recovery waits for pending writes
+    try {
+      return [...((await parseHistoryFile(this.file)) ?? emptyHistory()).records.values()]
+    } catch (e) {
+      if (!(e instanceof CorruptHistoryError)) throw e
+      return [...(await this.queue.run(() => this.load())).records.values()]
+    }
+  }
+
+  async merge(incoming: SyncRecord[], since = 0): Promise<SyncChanges> {
+    return changesSince(await this.mutate((records) => mergeRecords(records, incoming)), since, incoming)
+  }
+
+  // Apply `update` to the records keyed by id (see applyChange) and write the result; resolves to the
+  // history written
+  private mutate(update: (records: Map<string, SyncRecord>) => void): Promise<SequencedRecords> {
+    return this.queue.run(async () => {
+      const history = await this.load()
+      applyChange(history, () => update(history.records))
+      await this.write(history)
+      return history
+    })
+  }
+
+  private async write(history: SequencedRecords): Promise<void> {
+    // Only validated files are ever renamed into place, so the current one is a good backup
+    await fs.copyFile(this.file, this.backup).catch(() => {})
+    await writeFileAtomic(this.file, serialize(history))
+  }
+
+  // Read inside the queue: an unreadable file is quarantined next to the original and replaced
+  // with the last backup, or with an empty history when there is none
+  private async load(): Promise<SequencedRecords> {
+    try {
+      return (await parseHistoryFile(this.file)) ?? emptyHistory()
+    } catch (e) {
+      if (!(e instanceof CorruptHistoryError)) throw e
+    }
+    const quarantine = `${this.file}.corrupt-${Date.now()}`
+    await fs.rename(this.file, quarantine)
+    let history = emptyHistory()
+    try {
+      history = (await parseHistoryFile(this.backup)) ?? history
+    } catch {
+      // The backup is unreadable too; start over
+    }
+    console.error(
+      `History file was unreadable and moved to ${quarantine}; restored ${liveSnaps(history.records.values()).length} snaps from backup`,
+    )
+    await writeFileAtomic(this.file, serialize(history))
+    return history
+  }
+}
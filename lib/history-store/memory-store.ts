@@ -0,0 +1,72 @@
+import { isTombstone, nextVersion, tombstoneOf, type SyncRecord } from "../snap-versions"
+import type { SavedSnap } from "../storage"
+import {
+  applyChange,
+  byNewest,
+  changesSince,
+  liveSnaps,
+  mergeRecords,
+  normalizeSnap,
+  type HistoryStore,
+  type SequencedRecords,
+  type SnapPatch,
+  type SyncChanges,
+} from "./schema"
+
+// Process-local history that is never written anywhere: for tests and throwaway deployments
+export class MemoryHistoryStore implements HistoryStore {
+  private readonly history: SequencedRecords = { records: new Map(), sequence: 0 }
+  private readonly byId = this.history.records
+
+  constructor(initial: SyncRecord[] = []) {
+    applyChange(this.history, () => mergeRecords(this.byId, initial))
+  }
+
+  async list(): Promise<SavedSnap[]> {
+    return liveSnaps(this.byId.values()).sort(byNewest)
+  }
+
+  async get(id: string): Promise<SavedSnap | undefined> {
+    const record = this.byId.get(id)
+    return record && !isTombstone(record) ? record : undefined
+  }
+
+  async upsert(snaps: SavedSnap[]): Promise<void> {
+    applyChange(this.history, () => {
+      for (const snap of snaps) this.byId.set(snap.id, normalizeSnap({ ...snap, ...nextVersion(this.byId.get(snap.id)) }))
+    })
+  }
+
+  async update(id: string, changes: SnapPatch): Promise<SavedSnap | undefined> {
+    const current = await this.get(id)
+    if (!current) return undefined
+    applyChange(this.history, () => this.byId.set(id, normalizeSnap({ ...current, ...changes, ...nextVersion(current) })))
+    return this.get(id)
+  }
+
+  async remove(ids: string[]): Promise<number> {
+    return applyChange(this.history, () => {
+      let count = 0
+      for (const id of new Set(ids)) {
+        const current = this.byId.get(id)
+        if (!current || isTombstone(current)) continue
+        this.byId.set(id, tombstoneOf(current))
+        count++
+      }
+      return count
+    })
+  }
+
+  async clear(): Promise<number> {
+    return this.remove([...this.byId.keys()])
+  }
+
+  async records(): Promise<SyncRecord[]> {
+    return [...this.byId.values()]
+  }
+
+  async merge(incoming: SyncRecord[], since = 0): Promise<SyncChanges> {
+    applyChange(this.history, () => mergeRecords(this.byId, incoming))
+    return changesSince(this.history, since, incoming)
+  }
+}
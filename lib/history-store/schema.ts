@@ -0,0 +1,131 @@
+import { z } from "zod"
+import { snapContentSchema } from "../snap-metadata"
+import { isTombstone, newerVersion, sequenceOf, updatedAtOf, type SyncRecord } from "../snap-versions"
+import type { SavedSnap } from "../storage"
+
+export const savedSnapSchema = snapContentSchema.extend({
+  id: z.string().min(1).max(100),
+  timestamp: z.number().positive().finite(),
+  revision: z.number().int().nonnegative().optional(),
+  updatedAt: z.number().nonnegative().finite().optional(),
+  sequence: z.number().int().nonnegative().optional(),
+})
+
+// Fields a PATCH may change; the id is fixed by the URL and the store sets the version
+export const snapPatchSchema = savedSnapSchema.omit({ id: true, revision: true, updatedAt: true, sequence: true }).partial()
+
+export const tombstoneSchema = z.object({
+  id: z.string().min(1).max(100),
+  timestamp: z.number().positive().finite(),
+  revision: z.number().int().positive(),
+  updatedAt: z.number().nonnegative().finite(),
+  deleted: z.literal(true),
+  sequence: z.number().int().nonnegative().optional(),
+})
+
+// Tombstones first: a deleted record must not parse as a snap with `deleted` stripped
+export const syncRecordSchema: z.ZodType<SyncRecord, z.ZodTypeDef, unknown> = z.union([tombstoneSchema, savedSnapSchema])
+
+export type SnapPatch = z.infer<typeof snapPatchSchema>
+
+// Stored shape: title, tags and the version are always present
+export const normalizeSnap = (snap: SavedSnap): SavedSnap => ({
+  ...snap,
+  title: snap.title || "",
+  tags: snap.tags ?? [],
+  revision: snap.revision ?? 0,
+  updatedAt: snap.updatedAt ?? snap.timestamp,
+})
+
+export const normalizeRecord = (record: SyncRecord): SyncRecord => (isTombstone(record) ? record : normalizeSnap(record))
+
+export const liveSnaps = (records: Iterable<SyncRecord>): SavedSnap[] =>
+  [...records].filter((record): record is SavedSnap => !isTombstone(record))
+
+// Tombstones are kept this long after the deletion. A device that has not synced for longer may keep
+// a snap that was deleted elsewhere; it does not come back on the server unless that device edits it.
+export const TOMBSTONE_TTL = 90 * 24 * 60 * 60 * 1000
+
+// Keep the winning version of each incoming record in `records` (keyed by id)
+export function mergeRecords(records: Map<string, SyncRecord>, incoming: SyncRecord[]): void {
+  for (const record of incoming.map(normalizeRecord)) {
+    const current = records.get(record.id)
+    records.set(record.id, current ? newerVersion(current, record) : record)
+  }
+}
+
+// Newest first, the order every store lists in
+export const byNewest = (a: SavedSnap, b: SavedSnap) => b.timestamp - a.timestamp
+
+// Records keyed by id, with the last sequence number given out. The counter is stored with the
+// records and only ever grows: the highest number among the stored records can go down when an expired
+// tombstone is dropped, and handing that number out again would hide the change from every client
+// whose cursor already passed it.
+export interface SequencedRecords {
+  records: Map<string, SyncRecord>
+  sequence: number
+}
+
+// The counter for stores saved before it was kept: the highest number given to a stored record
+export const lastSequence = (records: Iterable<SyncRecord>) =>
+  [...records].reduce((max, record) => Math.max(max, sequenceOf(record)), 0)
+
+// Run `change` on `history.records`, then give every record it added or replaced the next sequence
+// number. Expired tombstones are dropped first, so one written by `change` survives until the next
+// write and reaches the device that sent it.
+export function applyChange<T>(history: SequencedRecords, change: () => T, now = Date.now()): T {
+  const { records } = history
+  for (const [id, record] of records) {
+    if (isTombstone(record) && updatedAtOf(record) < now - TOMBSTONE_TTL) records.delete(id)
+  }
+  const before = new Map(records)
+  const result = change()
+  for (const [id, record] of records) {
+    if (before.get(id) !== record) records.set(id, { ...record, sequence: ++history.sequence })
+  }
+  return result
+}
+
+// What a sync answers with
+export interface SyncChanges {
+  // Records changed after the client's cursor, plus the server's version of every record it sent
+  records: SyncRecord[]
+  // The last sequence number given out; the client sends it back as `since` next time
+  cursor: number
+}
+
+// The SyncChanges for a client at `since` that just sent `sent`. A cursor ahead of the server (its
+// history was reset) gets everything.
+export function changesSince({ records, sequence }: SequencedRecords, since: number, sent: SyncRecord[]): SyncChanges {
+  const from = since > sequence ? 0 : since
+  const sentIds = new Set(sent.map((record) => record.id))
+  return {
+    records: [...records.values()].filter((record) => sequenceOf(record) > from || sentIds.has(record.id)),
+    cursor: sequence,
+  }
+}
+
+// Server-side snap history. The /api/history routes only talk to this interface; which backend
+// implements it is chosen by HISTORY_STORE (see getHistoryStore).
+// Deleted snaps are kept as tombstones so devices that were offline learn about the deletion; only
+// records() and merge() ever return them. Writes through upsert/update/remove/clear are authoritative
+// and stamp the next version over whatever is stored. Every stored change also gets the next sequence
+// number, so a sync only sends what changed since the client's cursor.
+export interface HistoryStore {
+  // All snaps, newest first
+  list(): Promise<SavedSnap[]>
+  get(id: string): Promise<SavedSnap | undefined>
+  // Insert snaps, replacing any with the same id
+  upsert(snaps: SavedSnap[]): Promise<void>
+  // Merge changes into a snap; undefined when there is no snap with that id
+  update(id: string, changes: SnapPatch): Promise<SavedSnap | undefined>
+  // Number of snaps that existed and were removed
+  remove(ids: string[]): Promise<number>
+  clear(): Promise<number>
+  // Snaps and tombstones, for sync
+  records(): Promise<SyncRecord[]>
+  // Keep the newer version of each incoming record (see newerVersion) and return what changed after
+  // the cursor `since` (see changesSince)
+  merge(incoming: SyncRecord[], since?: number): Promise<SyncChanges>
+}
+
@@ -0,0 +1,128 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import initSqlJs from "sql.js"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { SavedSnap } from "../storage"
+import { TOMBSTONE_TTL } from "./schema"
+import { SqliteHistoryStore } from "./sqlite-store"
+
+const snap = (id: string, timestamp = Date.now()): SavedSnap => ({ id, text: `Snap ${id}`, timestamp, title: id, tags: [] })
+
+describe("SqliteHistoryStore", () => {
+  let dir: string
+  let file: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "history-"))
+    file = path.join(dir, "history.sqlite")
+  })
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it("saves every concurrent write to the file", async () => {
+    const store = new SqliteHistoryStore(file)
+    const ids = Array.from({ length: 50 }, (_, i) => `snap-${i}`)
+    await Promise.all(ids.map((id, i) => store.upsert([snap(id, 1_000 + i)])))
+
+    const reopened = new SqliteHistoryStore(file)
+    expect((await reopened.list()).map((s) => s.id).sort()).toEqual([...ids].sort())
+    expect((await fs.readdir(dir)).sort()).toEqual(["history.sqlite", "history.sqlite.bak"])
+  })
+
+  it("returns only the records changed since the cursor", async () => {
+    const store = new SqliteHistoryStore(file)
+    await store.upsert([snap("a", 1), snap("b", 2)])
+    const { cursor } = await store.merge([])
+    expect(cursor).toBe(2)
+
+    await store.remove(["a"])
+    const changes = await store.merge([{ ...snap("b", 2), revision: 0, updatedAt: 0 }], cursor)
+    expect(changes.cursor).toBe(3)
+    expect(changes.records).toEqual([
+      expect.objectContaining({ id: "a", deleted: true, sequence: 3 }),
+      // Sent, so returned although unchanged
+      expect.objectContaining({ id: "b", revision: 1, sequence: 2 }),
+    ])
+  })
+
+  it("drops expired tombstones on the next write", async () => {
+    const store = new SqliteHistoryStore(file)
+    await store.merge([{ id: "gone", timestamp: 1, revision: 2, updatedAt: Date.now() - TOMBSTONE_TTL - 1, deleted: true }])
+    expect((await store.records()).map((r) => r.id)).toEqual(["gone"])
+    await store.upsert([snap("a", 1)])
+    expect((await store.records()).map((r) => r.id)).toEqual(["a"])
+  })
+
+  it("never gives out the sequence number of an expired tombstone again", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const store = new SqliteHistoryStore(file)
+    await store.upsert([snap("a", 1), snap("b", 2)])
+    await store.remove(["b"])
+    // A client that has seen everything up to the deletion
+    const { cursor } = await store.merge([])
+    vi.setSystemTime(Date.now() + TOMBSTONE_TTL + 1)
+    await store.upsert([snap("c", 3)])
+
+    const changes = await store.merge([], cursor)
+    expect(changes.records.map((r) => r.id)).toEqual(["c"])
+    expect(changes.cursor).toBe(cursor + 1)
+  })
+
+  it("adds the sync columns to a database created before them", async () => {
+    const SQL = await initSqlJs()
+    const old = new SQL.Database()
+    old.exec(`CREATE TABLE snaps (id TEXT PRIMARY KEY, text TEXT NOT NULL, timestamp INTEGER NOT NULL,
+      title TEXT NOT NULL DEFAULT '', tags TEXT NOT NULL DEFAULT '[]', settings TEXT)`)
+    old.run("INSERT INTO snaps (id, text, timestamp) VALUES ('a', 'Old snap', 5)")
+    await fs.writeFile(file, old.export())
+
+    const store = new SqliteHistoryStore(file)
+    expect(await store.records()).toEqual([
+      { id: "a", text: "Old snap", timestamp: 5, title: "", tags: [], revision: 0, updatedAt: 5, sequence: 0 },
+    ])
+    await store.upsert([snap("b", 6)])
+    expect((await store.merge([], 0)).cursor).toBe(1)
+  })
+
+  it("retries opening after a failure instead of caching it", async () => {
+    // A directory where the file should be: reading it fails with EISDIR
+    await fs.mkdir(file)
+    const store = new SqliteHistoryStore(file)
+    await expect(store.list()).rejects.toThrow()
+
+    await fs.rmdir(file)
+    await store.upsert([snap("a", 1)])
+    expect((await store.list()).map((s) => s.id)).toEqual(["a"])
+  })
+
+  it("quarantines a corrupt file and restores the history from the backup", async () => {
+    const store = new SqliteHistoryStore(file)
+    await store.upsert([snap("a", 1)])
+    // The second save copies the first into history.sqlite.bak
+    await store.upsert([snap("b", 2)])
+    await fs.writeFile(file, "definitely not a database")
+
+    const reopened = new SqliteHistoryStore(file)
+    expect((await reopened.list()).map((s) => s.id)).toEqual(["a"])
+    const quarantined = (await fs.readdir(dir)).filter((name) => name.startsWith("history.sqlite.corrupt-"))
+    expect(quarantined).toHaveLength(1)
+    expect(await fs.readFile(path.join(dir, quarantined[0]), "utf8")).toBe("definitely not a database")
+
+    // The restored database was written back
+    expect((await new SqliteHistoryStore(file).list()).map((s) => s.id)).toEqual(["a"])
+  })
+
+  it("starts over when the backup is unreadable too", async () => {
+    await fs.writeFile(file, "definitely not a database")
+    await fs.writeFile(`${file}.bak`, "nor is this")
+
+    const store = new SqliteHistoryStore(file)
+    expect(await store.list()).toEqual([])
+    await store.upsert([snap("a", 1)])
+    expect((await new SqliteHistoryStore(file).list()).map((s) => s.id)).toEqual(["a"])
+  })
+})
@@ -0,0 +1,309 @@
+import { promises as fs } from "fs"
+import path from "path"
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from "sql.js"
+import { isTombstone, newerVersion, nextVersion, tombstoneOf, type SyncRecord } from "../snap-versions"
+import type { SavedSnap } from "../storage"
+import { TaskQueue, writeFileAtomic } from "./files"
+import {
+  TOMBSTONE_TTL,
+  liveSnaps,
+  normalizeRecord,
+  normalizeSnap,
+  type HistoryStore,
+  type SnapPatch,
+  type SyncChanges,
+} from "./schema"
+
+// Embedded SQLite (sql.js, compiled to WebAssembly, so nothing native to build). The database is held
+// in memory and saved to the file after every write, one write at a time and atomically, keeping the
+// previous file as <file>.bak; snaps are indexed by id and timestamp, so lookups and ordering do not
+// rescan a JSON document. Tombstones are rows with deleted = 1 and no content. The sync sequence
+// counter lives in the meta table. A file SQLite cannot
+// read is moved aside and the history restored from the backup, as JsonFileHistoryStore does.
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS snaps (
+    id TEXT PRIMARY KEY,
+    text TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    title TEXT NOT NULL DEFAULT '',
+    tags TEXT NOT NULL DEFAULT '[]',
+    settings TEXT,
+    revision INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL DEFAULT 0,
+    deleted INTEGER NOT NULL DEFAULT 0,
+    sequence INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS snaps_timestamp ON snaps (timestamp DESC);
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value INTEGER NOT NULL
+  );
+`
+
+// Columns added to databases created before sync; existing snaps were last changed when they were created
+const VERSION_COLUMNS = `
+  ALTER TABLE snaps ADD COLUMN revision INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE snaps ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE snaps ADD COLUMN deleted INTEGER NOT NULL DEFAULT 0;
+  UPDATE snaps SET updated_at = timestamp;
+`
+
+// Added with the sync cursor; existing rows count as unchanged since before any cursor
+const SEQUENCE_COLUMN = `
+  ALTER TABLE snaps ADD COLUMN sequence INTEGER NOT NULL DEFAULT 0;
+`
+
+const SEQUENCE_INDEX = "CREATE INDEX IF NOT EXISTS snaps_sequence ON snaps (sequence)"
+
+// The last sequence number given out (see SequencedRecords). Databases saved before the counter start
+// from the highest number among their rows.
+const SEQUENCE_COUNTER = `
+  INSERT OR IGNORE INTO meta (key, value) SELECT 'sequence', COALESCE(MAX(sequence), 0) FROM snaps;
+`
+
+type Row = Record<string, SqlValue>
+
+// SQLITE_NOTADB and SQLITE_CORRUPT, as sql.js reports them
+const CORRUPT_DATABASE = /file is not a database|database disk image is malformed/
+
+const isCorrupt = (e: unknown) => e instanceof Error && CORRUPT_DATABASE.test(e.message)
+
+async function readDatabaseFile(file: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(file)
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw e
+  }
+}
+
+const toRecord = (row: Row): SyncRecord =>
+  row.deleted
+    ? {
+        id: String(row.id),
+        timestamp: Number(row.timestamp),
+        revision: Number(row.revision),
+        updatedAt: Number(row.updated_at),
+        deleted: true,
+        sequence: Number(row.sequence),
+      }
+    : {
+        id: String(row.id),
+        text: String(row.text),
+        timestamp: Number(row.timestamp),
+        title: String(row.title),
+        tags: JSON.parse(String(row.tags)) as string[],
+        ...(row.settings ? { settings: JSON.parse(String(row.settings)) } : {}),
+        revision: Number(row.revision),
+        updatedAt: Number(row.updated_at),
+        sequence: Number(row.sequence),
+      }
+
+export class SqliteHistoryStore implements HistoryStore {
+  private readonly queue = new TaskQueue()
+  private readonly backup: string
+  private database: Promise<Database> | null = null
+
+  constructor(private readonly file: string) {
+    this.backup = `${file}.bak`
+  }
+
+  async list(): Promise<SavedSnap[]> {
+    return liveSnaps(await this.query("SELECT * FROM snaps WHERE deleted = 0 ORDER BY timestamp DESC"))
+  }
+
+  async get(id: string): Promise<SavedSnap | undefined> {
+    return liveSnaps(await this.query("SELECT * FROM snaps WHERE id = ? AND deleted = 0", [id]))[0]
+  }
+
+  async upsert(snaps: SavedSnap[]): Promise<void> {
+    await this.mutate((db) => {
+      for (const snap of snaps) this.write(db, normalizeSnap({ ...snap, ...nextVersion(this.find(db, snap.id)) }))
+    })
+  }
+
+  async update(id: string, changes: SnapPatch): Promise<SavedSnap | undefined> {
+    return this.mutate((db) => {
+      const current = this.find(db, id)
+      if (!current || isTombstone(current)) return undefined
+      this.write(db, normalizeSnap({ ...current, ...changes, ...nextVersion(current) }))
+      // Read back for the sequence number the row was given
+      return this.find(db, id) as SavedSnap
+    })
+  }
+
+  async remove(ids: string[]): Promise<number> {
+    return this.mutate((db) => {
+      let count = 0
+      for (const id of new Set(ids)) {
+        const current = this.find(db, id)
+        if (!current || isTombstone(current)) continue
+        this.write(db, tombstoneOf(current))
+        count++
+      }
+      return count
+    })
+  }
+
+  async clear(): Promise<number> {
+    return this.mutate((db) => {
+      const snaps = liveSnaps(this.select(db, "SELECT * FROM snaps WHERE deleted = 0"))
+      for (const snap of snaps) this.write(db, tombstoneOf(snap))
+      return snaps.length
+    })
+  }
+
+  async records(): Promise<SyncRecord[]> {
+    return this.query("SELECT * FROM snaps")
+  }
+
+  async merge(incoming: SyncRecord[], since = 0): Promise<SyncChanges> {
+    return this.mutate((db) => {
+      for (const record of incoming.map(normalizeRecord)) {
+        const current = this.find(db, record.id)
+        if (!current || newerVersion(current, record) !== current) this.write(db, record)
+      }
+      // As changesSince, without reading the whole table
+      const cursor = Number(db.exec("SELECT value FROM meta WHERE key = 'sequence'")[0].values[0][0])
+      const records = this.select(db, "SELECT * FROM snaps WHERE sequence > ?", [since > cursor ? 0 : since])
+      const returned = new Set(records.map((record) => record.id))
+      for (const id of new Set(incoming.map((record) => record.id))) {
+        const current = returned.has(id) ? undefined : this.find(db, id)
+        if (current) records.push(current)
+      }
+      return { records, cursor }
+    })
+  }
+
+  private open(): Promise<Database> {
+    // Retried on the next call when it fails, rather than failing every request until a restart
+    this.database ??= this.load().catch((e) => {
+      this.database = null
+      throw e
+    })
+    return this.database
+  }
+
+  private async load(): Promise<Database> {
+    const SQL = await initSqlJs({ locateFile: (name) => path.join(process.cwd(), "node_modules", "sql.js", "dist", name) })
+    const data = await readDatabaseFile(this.file)
+    if (!data) return this.prepare(new SQL.Database())
+    try {
+      return this.prepare(new SQL.Database(data))
+    } catch (e) {
+      if (!isCorrupt(e)) throw e
+    }
+    return this.recover(SQL)
+  }
+
+  // Create the table on a new database and add the columns sync needs to one created before it
+  private prepare(db: Database): Database {
+    try {
+      db.exec(SCHEMA)
+      const columns = db.exec("SELECT name FROM pragma_table_info('snaps')")[0]?.values.flat() ?? []
+      if (!columns.includes("revision")) db.exec(VERSION_COLUMNS)
+      if (!columns.includes("sequence")) db.exec(SEQUENCE_COLUMN)
+      db.exec(SEQUENCE_INDEX)
+      db.exec(SEQUENCE_COUNTER)
+      return db
+    } catch (e) {
+      db.close()
+      throw e
+    }
+  }
+
+  // The file is not a readable database: quarantine it next to the original and replace it with the
+  // last backup, or with an empty history when there is none
+  private async recover(SQL: SqlJsStatic): Promise<Database> {
+    const quarantine = `${this.file}.corrupt-${Date.now()}`
+    await fs.rename(this.file, quarantine)
+    let db: Database | undefined
+    try {
+      const backup = await readDatabaseFile(this.backup)
+      if (backup) db = this.prepare(new SQL.Database(backup))
+    } catch {
+      // The backup is unreadable too; start over
+    }
+    db ??= this.prepare(new SQL.Database())
+    console.error(
+      `History database was unreadable and moved to ${quarantine}; restored ${liveSnaps(this.select(db, "SELECT * FROM snaps")).length} snaps from backup`,
+    )
+    await writeFileAtomic(this.file, db.export())
+    return db
+  }
+
+  private async query(sql: string, params: SqlValue[] = []): Promise<SyncRecord[]> {
+    return this.select(await this.open(), sql, params)
+  }
+
+  private select(db: Database, sql: string, params: SqlValue[] = []): SyncRecord[] {
+    const statement = db.prepare(sql)
+    try {
+      statement.bind(params)
+      const records: SyncRecord[] = []
+      while (statement.step()) records.push(toRecord(statement.getAsObject()))
+      return records
+    } finally {
+      statement.free()
+    }
+  }
+
+  // The snap or tombstone with this id
+  private find(db: Database, id: string): SyncRecord | undefined {
+    return this.select(db, "SELECT * FROM snaps WHERE id = ?", [id])[0]
+  }
+
+  private write(db: Database, record: SyncRecord) {
+    const snap = isTombstone(record) ? undefined : record
+    db.run("UPDATE meta SET value = value + 1 WHERE key = 'sequence'")
+    db.run(
+      `INSERT OR REPLACE INTO snaps (id, text, timestamp, title, tags, settings, revision, updated_at, deleted, sequence)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, (SELECT value FROM meta WHERE key = 'sequence'))`,
+      [
+        record.id,
+        snap?.text ?? "",
+        record.timestamp,
+        snap?.title ?? "",
+        JSON.stringify(snap?.tags ?? []),
+        snap?.settings ? JSON.stringify(snap.settings) : null,
+        record.revision ?? 0,
+        record.updatedAt ?? record.timestamp,
+        snap ? 0 : 1,
+      ],
+    )
+  }
+
+  // Run `change` in a transaction, then save the database file. Queued, so saves never interleave.
+  private mutate<T>(change: (db: Database) => T): Promise<T> {
+    return this.queue.run(async () => {
+      const db = await this.open()
+      db.exec("BEGIN")
+      let result: T
+      try {
+        // Expired tombstones go before the change, so one it writes reaches the device that sent it
+        db.run("DELETE FROM snaps WHERE deleted = 1 AND updated_at < ?", [Date.now() - TOMBSTONE_TTL])
+        result = change(db)
+        db.exec("COMMIT")
+      } catch (e) {
+        db.exec("ROLLBACK")
+        throw e
+      }
+      await this.save(db)
+      return result
+    })
+  }
+
+  private async save(db: Database): Promise<void> {
+    // Only databases that opened cleanly are ever saved, so the current file is a good backup
+    await fs.copyFile(this.file, this.backup).catch(() => {})
+    try {
+      await writeFileAtomic(this.file, db.export())
+    } catch (e) {
+      // The committed change never reached the file; reopen from disk instead of serving it
+      this.database = null
+      db.close()
+      throw e
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import { ImageGenerator, type ImageOptions } from "./image-generator"
+import { createServerCanvas } from "./server-canvas"
+
+const CARD: Partial<ImageOptions> = {
+  width: 500,
+  height: 2000,
+  fontSize: 24,
+  autoFit: false,
+  strict: false,
+  chrome: "none",
+}
+
+// "One two three …" in Hebrew, long enough to wrap
+const HEBREW = "אחת שתיים שלוש ארבע חמש שש שבע שמונה תשע עשר אחת עשרה שתים עשרה שלוש עשרה ארבע עשרה"
+
+describe("right-to-left text", () => {
+  let generator: ImageGenerator
+
+  beforeAll(async () => {
+    generator = new ImageGenerator(await createServerCanvas())
+  })
+
+  it("keeps the first word of a justified line at the right edge", () => {
+    const layout = generator.layout(HEBREW, { ...CARD, textAlign: "justify" })
+    const [first] = layout.lines
+    const words = first.runs.filter((run) => run.text.trim() !== "")
+    expect(words.length).toBeGreaterThan(1)
+    expect(layout.lines.length).toBeGreaterThan(1)
+    const rightmost = words.reduce((a, b) => (b.x > a.x ? b : a))
+    expect(rightmost.text).toBe("אחת")
+    // Right to left across the line: logical order runs from the right edge leftwards
+    const logical = HEBREW.split(" ").slice(0, words.length)
+    expect([...words].sort((a, b) => b.x - a.x).map((run) => run.text)).toEqual(logical)
+  })
+
+  it("types right-to-left runs out in reading order", async () => {
+    const canvas = await createServerCanvas()
+    const fillText = vi.spyOn(canvas.getContext("2d")!, "fillText")
+    const typewriter = new ImageGenerator(canvas)
+    // A right-to-left paragraph with a left-to-right word inside, and a justified line split into words:
+    // either way the visually leftmost run is read last
+    for (const [text, align] of [
+      ["שלום world עולם", "left"],
+      [HEBREW, "justify"],
+    ] as const) {
+      fillText.mockClear()
+      await typewriter.generateTypewriter(text, { ...CARD, height: 400, textAlign: align }, { speed: 200, hold: 0 })
+      const typed = fillText.mock.calls.map(([drawn]) => drawn).filter((drawn) => drawn.trim() !== "")
+      // The first frame shows the start of the text, however much of it fits in one frame
+      expect(typed[0]).toBe(text.slice(0, typed[0].length))
+    }
+  })
+})
+
+describe("tweet chrome", () => {
+  it("puts the title's first whole character in the avatar", async () => {
+    const generator = new ImageGenerator(await createServerCanvas())
+    for (const [title, initial] of [
+      ["snap", "S"],
+      ["👩‍💻 dev", "👩‍💻"],
+      ["🇯🇵 trip", "🇯🇵"],
+    ]) {
+      const { chrome } = generator.layout("Hello", { ...CARD, chrome: "tweet", chromeTitle: title })
+      expect(chrome.find((shape) => shape.kind === "text")).toMatchObject({ text: initial })
+    }
+  })
+})
@@ -1,5 +1,35 @@
+import {
+  bytesToDataUrl,
+  dataUrlToBytes,
+  loadBrowserImage,
+  textToDataUrl,
+  type Canvas2DContext,
+  type CanvasImage,
+  type CanvasLike,
+  type ImageLoader,
+} from "./canvas"
+import { paletteForBackground, parseFencedBlocks, tokenizeCode, type SyntaxPalette } from "./code-highlight"
+import { CHROME_FONT, CHROME_STYLES, DEFAULT_CHROME_TITLE, chromeShapes, type ChromeId, type ChromeShape } from "./chrome"
+import {
+  GLASS_BLUR,
+  GLASS_OPACITY,
+  linearGradientLine,
+  patternTile,
+  radialGradientRadius,
+  withAlpha,
+  type BackgroundFill,
+} from "./backgrounds"
+import type { TypewriterFrame, TypewriterOptions } from "./typewriter"
+import { DEFAULT_TEMPLATE, splitHeadline, type LayoutTemplate } from "./layout-template"
+import { resolveFontVariables } from "./fonts"
+import { withSnapMetadata, type SnapMetadata } from "./snap-metadata"
+import { hasRtlText, paragraphDirection, reorderVisually, resolveLevels, type Direction } from "./bidi"
+import { splitGraphemes, splitLineBreakUnits, splitWordSegments } from "./segmentation"
+import { renderSvg } from "./svg-export"
+import { parseInlineMarkup, runFont, runWeight, stripInlineMarkup, type TextRun, type TextStyle } from "./rich-text"
+
 export interface ImageOptions {
-  format: "png" | "jpeg" | "webp"
+  format: "png" | "jpeg" | "webp" | "pdf" | "svg"
   quality: number
   width: number
   height: number
@@ -10,8 +40,49 @@ export interface ImageOptions {
   fontSize: number
   padding: number
   borderRadius: number
+  // Body text alignment. "left" and "right" mirror in right-to-left paragraphs; "justify" spreads
+  // words to both edges and leaves the last line of each paragraph at the start edge.
+  textAlign?: TextAlign
+  // Typography of the body text. lineHeight is a multiple of the font size, letterSpacing is in em,
+  // paragraphSpacing is the extra gap between paragraphs as a multiple of the line height
+  lineHeight?: number
+  letterSpacing?: number
+  paragraphSpacing?: number
+  // CSS weight (100-900) of regular text; **bold** markup draws heavier
+  fontWeight?: number
   autoFit?: boolean
+  // Keep exactly width x height: the font shrinks (or, with autoFit, grows) to the largest size whose
+  // wrapped text fits, and TextOverflowError is thrown when even the minimum size does not
+  strict?: boolean
   cardColor?: string
+  // Token colors for fenced code blocks; defaults to a palette that contrasts with the card
+  syntaxColors?: Partial<SyntaxPalette>
+  // Author attribution drawn inside the card under the text
+  footer?: AuthorFooter
+  // Gradient, pattern or photo drawn instead of the flat backgroundColor (see lib/backgrounds.ts)
+  background?: BackgroundFill
+  // "glass" draws the card as frosted glass over the background
+  cardStyle?: "solid" | "glass"
+  // Window chrome across the top of the card (see lib/chrome.ts); defaults to macOS traffic lights
+  chrome?: ChromeId
+  // Title shown by chrome styles that have one (terminal, browser tab, tweet header, ...)
+  chromeTitle?: string
+  // Card regions, spacing and colors (see lib/layout-template.ts); values it declares win over the fields above
+  template?: LayoutTemplate
+  // Source snap written into PNG, JPEG and WebP exports so the image can be reopened (see lib/snap-metadata.ts)
+  metadata?: SnapMetadata
+}
+
+export type TextAlign = "left" | "center" | "right" | "justify"
+
+export interface AuthorFooter {
+  name: string
+  // Shown as "@handle"; a leading "@" is optional
+  handle?: string
+  // Image URL or data URL; the name's initials are drawn when missing or unloadable
+  avatarUrl?: string
+  // Free-form, e.g. "Mar 4, 2025"
+  date?: string
 }
 
 export const defaultImageOptions: ImageOptions = {
@@ -26,96 +97,753 @@ export const defaultImageOptions: ImageOptions = {
   fontSize: 16,
   padding: 40,
   borderRadius: 20,
+  textAlign: "center",
+  lineHeight: 1.6,
+  letterSpacing: 0,
+  paragraphSpacing: 0.5,
+  fontWeight: 400,
   autoFit: true,
   cardColor: "#EFE3CF",
 }
 
+// Smallest font size auto-fit and strict mode will use, and the largest strict mode will try
+const MIN_FONT_SIZE = 10
+const MAX_STRICT_FONT_SIZE = 200
+
+// Strict mode could not fit the text into the requested canvas
+export class TextOverflowError extends Error {
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    readonly fontSize: number,
+  ) {
+    super(`Text does not fit ${width}×${height} even at ${fontSize}px; shorten it or use a larger size`)
+    this.name = "TextOverflowError"
+  }
+}
+
+// Caps on a single render, for servers that take untrusted requests; unset means unlimited
+export interface RenderLimits {
+  // Pixels of one card or frame as painted: width × height × scale²
+  maxPixels?: number
+  // Frames of a typewriter animation
+  maxFrames?: number
+  // Pixels painted across all frames of an animation
+  maxAnimationPixels?: number
+}
+
+// A render would exceed its RenderLimits
+export class RenderLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "RenderLimitError"
+  }
+}
+
 export class ImageGenerator {
-  private readonly canvas: HTMLCanvasElement
-  private readonly ctx: CanvasRenderingContext2D
+  private readonly canvas: CanvasLike
+  private readonly ctx: Canvas2DContext
+  private readonly loadImage: ImageLoader
+  private readonly limits: RenderLimits
+  private readonly images = new Map<string, Promise<CanvasImage | null>>()
 
-  constructor(canvas: HTMLCanvasElement) {
+  // Accepts a browser HTMLCanvasElement or a server canvas (see lib/server-canvas.ts),
+  // with the matching image loader for avatars
+  constructor(canvas: CanvasLike, loadImage: ImageLoader = loadBrowserImage, limits: RenderLimits = {}) {
     this.canvas = canvas
+    this.loadImage = loadImage
+    this.limits = limits
     const ctx = canvas.getContext("2d")
     if (!ctx) throw new Error("Could not get canvas context")
     this.ctx = ctx
   }
 
   async generateImage(text: string, options: Partial<ImageOptions> = {}): Promise<string> {
-    const opts = { ...defaultImageOptions, ...options }
+    const opts = resolveOptions(options)
     const normalizedFontFamily = this.normalizeFontFamily(opts.fontFamily)
+    await this.loadFonts(opts, normalizedFontFamily)
+    const workingFontSize = this.workingFontSize(text, opts, normalizedFontFamily)
+    return this.renderCard(text, opts, normalizedFontFamily, workingFontSize)
+  }
+
+  // Layout of a single card without painting it. The editor preview draws from the same CardLayout
+  // that generateImage paints, so line breaks and font size match the export exactly.
+  layout(text: string, options: Partial<ImageOptions> = {}): CardLayout {
+    const opts = resolveOptions(options)
+    const normalizedFontFamily = this.normalizeFontFamily(opts.fontFamily)
+    return this.layoutCard(text, opts, normalizedFontFamily, this.workingFontSize(text, opts, normalizedFontFamily))
+  }
 
-    // Determine font size; optionally auto-fit to width and scale up to use available space
-    const targetWidth = opts.width - 96 - opts.padding * 2
+  // Carousel mode: split long text across fixed-size slides (opts.width x opts.height) with "1/5" page markers.
+  // Every slide uses opts.fontSize as-is (auto-fit would shrink long paragraphs onto one line instead of paging),
+  // so the set reads consistently; returns one data URL per slide. For format "pdf" the slides are the pages
+  // of a single document, returned as one data URL.
+  async generateCarousel(text: string, options: Partial<ImageOptions> = {}): Promise<string[]> {
+    const resolved = resolveOptions(options)
+    // Slides are continuous body text; a headline region would promote every slide's first line
+    const opts = { ...resolved, template: { ...templateOf(resolved), headline: undefined } }
+    const normalizedFontFamily = this.normalizeFontFamily(opts.fontFamily)
+    await this.loadFonts(opts, normalizedFontFamily)
+    const workingFontSize = opts.fontSize
+    const slides = this.splitIntoSlides(text, opts, normalizedFontFamily, workingFontSize)
+    // Slides keep one font size, so in strict mode a slide that cannot fit (a wide code block, say) is an error
+    if (opts.strict) {
+      slides.forEach((slide, i) => {
+        const pageLabel = slides.length > 1 ? `${i + 1}/${slides.length}` : undefined
+        if (!this.fitsCanvas(this.layoutCard(slide, opts, normalizedFontFamily, workingFontSize, pageLabel), opts)) {
+          throw new TextOverflowError(opts.width, opts.height, workingFontSize)
+        }
+      })
+    }
+    if (opts.format === "pdf") {
+      return [await this.renderPdf(slides, opts, normalizedFontFamily, workingFontSize)]
+    }
+    const images: string[] = []
+    for (let i = 0; i < slides.length; i++) {
+      const pageLabel = slides.length > 1 ? `${i + 1}/${slides.length}` : undefined
+      images.push(await this.renderCard(slides[i], opts, normalizedFontFamily, workingFontSize, pageLabel))
+    }
+    return images
+  }
+
+  // Determine font size; optionally auto-fit to width and scale up to use available space
+  private resolveFontSize(text: string, opts: ImageOptions, normalizedFontFamily: string): number {
+    const targetWidth = opts.width - templateOf(opts).card.inset * 2 - opts.padding * 2
+    const typography = typographyOf(opts)
     let workingFontSize = opts.fontSize
-    this.ctx.font = `${workingFontSize}px ${normalizedFontFamily}`
+    const setSize = (size: number) => {
+      this.ctx.font = runFont({}, size, normalizedFontFamily, typography.fontWeight)
+      this.ctx.letterSpacing = `${typography.letterSpacing * size}px`
+    }
+    setSize(workingFontSize)
     if (opts.autoFit) {
-      const sampleLine = text.split("\n").reduce((a, b) => (b.length > a.length ? b : a), "")
+      const sampleLine = stripInlineMarkup(text).split("\n").reduce((a, b) => (b.length > a.length ? b : a), "")
       // Shrink until it fits
-      while (workingFontSize > 10 && this.ctx.measureText(sampleLine).width > targetWidth) {
+      while (workingFontSize > MIN_FONT_SIZE && this.ctx.measureText(sampleLine).width > targetWidth) {
         workingFontSize -= 1
-        this.ctx.font = `${workingFontSize}px ${normalizedFontFamily}`
+        setSize(workingFontSize)
       }
       // Grow back up to utilize space if much smaller than target
       while (this.ctx.measureText(sampleLine).width < targetWidth * 0.9) {
         workingFontSize += 1
-        this.ctx.font = `${workingFontSize}px ${normalizedFontFamily}`
+        setSize(workingFontSize)
         if (this.ctx.measureText(sampleLine).width > targetWidth) {
           workingFontSize -= 1
-          this.ctx.font = `${workingFontSize}px ${normalizedFontFamily}`
+          setSize(workingFontSize)
           break
         }
         if (workingFontSize > opts.fontSize * 3) break
       }
     }
+    this.ctx.letterSpacing = "0px"
+    return workingFontSize
+  }
+
+  // Animated typewriter export (GIF or WebM) of a single card, returned as a data URL. Animations
+  // default to scale 1: every frame is a full canvas, and 3x frames make large, slow files.
+  async generateTypewriter(
+    text: string,
+    options: Partial<ImageOptions> = {},
+    animation: Partial<TypewriterOptions> = {},
+  ): Promise<string> {
+    // Loaded on demand like the PDF exporter, keeping the GIF encoder out of ordinary renders
+    const { defaultTypewriterOptions, encodeGif, planTypewriterFrames, recordWebm } = await import("./typewriter")
+    const anim = { ...defaultTypewriterOptions, ...animation }
+    const opts = resolveOptions({ scale: 1, ...options })
+    const normalizedFontFamily = this.normalizeFontFamily(opts.fontFamily)
+    await this.loadFonts(opts, normalizedFontFamily)
+    const layout = this.layoutCard(text, opts, normalizedFontFamily, this.workingFontSize(text, opts, normalizedFontFamily))
+    const images = await this.loadImages(opts)
+    const total = layout.lines.reduce((sum, line) => sum + line.runs.reduce((n, run) => n + splitGraphemes(run.text).length, 0), 0)
+    const frames = planTypewriterFrames(total, anim)
+    if (this.limits.maxFrames !== undefined && frames.length > this.limits.maxFrames) {
+      throw new RenderLimitError(`Animation needs ${frames.length} frames; the limit is ${this.limits.maxFrames}`)
+    }
+    const animationPixels = frames.length * layout.width * layout.height * opts.scale ** 2
+    if (this.limits.maxAnimationPixels !== undefined && animationPixels > this.limits.maxAnimationPixels) {
+      throw new RenderLimitError("Animation is too large; shorten it, lower the frame rate or use a smaller card")
+    }
+    const paint = (frame: Pick<TypewriterFrame, "visible" | "caret">) => this.paintCard(layout, opts, images, undefined, frame)
+
+    if (anim.format === "webm") {
+      const blob = await recordWebm(this.canvas, frames, paint)
+      return bytesToDataUrl(new Uint8Array(await blob.arrayBuffer()), "video/webm")
+    }
+    const bytes = encodeGif(frames, paint, () => this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height))
+    return bytesToDataUrl(bytes, "image/gif")
+  }
+
+  // Canvas draws with whatever faces have loaded and never redraws, so the first render would fall back
+  // to a default font. Wait for every face the card uses: regular, bold and italic of the body and
+  // headline families, at the body weight and at 400 for the footer. The server registers fonts up front.
+  private async loadFonts(opts: ImageOptions, normalizedFontFamily: string): Promise<void> {
+    if (typeof document === "undefined" || !document.fonts) return
+    const headline = templateOf(opts).headline?.family
+    const families = headline ? [normalizedFontFamily, this.normalizeFontFamily(headline)] : [normalizedFontFamily]
+    const styles: TextStyle[] = [{}, { bold: true }, { italic: true }, { bold: true, italic: true }]
+    const fonts = new Set(
+      families.flatMap((family) =>
+        [400, typographyOf(opts).fontWeight].flatMap((weight) => styles.map((style) => runFont(style, 16, family, weight))),
+      ),
+    )
+    // A face that fails to load falls back like any CSS font; that is not worth failing the export over
+    await Promise.all([...fonts].map((font) => document.fonts.load(font).catch(() => [])))
+  }
+
+  private workingFontSize(text: string, opts: ImageOptions, normalizedFontFamily: string): number {
+    return opts.strict ? this.fitFontSize(text, opts, normalizedFontFamily) : this.resolveFontSize(text, opts, normalizedFontFamily)
+  }
+
+  // Strict mode: binary search for the largest font size whose layout fits the canvas exactly.
+  // Without autoFit, opts.fontSize is the ceiling and the text only shrinks.
+  private fitFontSize(text: string, opts: ImageOptions, normalizedFontFamily: string): number {
+    const fits = (fontSize: number) => this.fitsCanvas(this.layoutCard(text, opts, normalizedFontFamily, fontSize), opts)
+    let lo = MIN_FONT_SIZE
+    let hi = Math.max(MIN_FONT_SIZE, Math.floor(opts.autoFit ? MAX_STRICT_FONT_SIZE : opts.fontSize))
+    if (!fits(lo)) throw new TextOverflowError(opts.width, opts.height, MIN_FONT_SIZE)
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2)
+      if (fits(mid)) lo = mid
+      else hi = mid - 1
+    }
+    return lo
+  }
+
+  // A layout fits when the card did not have to grow and no line or code panel sticks out of the text box
+  private fitsCanvas(layout: CardLayout, opts: ImageOptions): boolean {
+    if (layout.height > opts.height) return false
+    const left = layout.card.x + opts.padding
+    const right = layout.card.x + layout.card.width - opts.padding
+    const slack = 0.5
+    const inside = (x: number, width: number) => x >= left - slack && x + width <= right + slack
+    return (
+      layout.lines.every((line) => line.runs.every((run) => inside(run.x, run.width))) &&
+      // Panels extend 0.6em past their code on each side by design
+      layout.codePanels.every((panel) => inside(panel.x + layout.fontSize * 0.6, panel.width - layout.fontSize * 1.2))
+    )
+  }
+
+  private async renderCard(
+    text: string,
+    opts: ImageOptions,
+    normalizedFontFamily: string,
+    workingFontSize: number,
+    pageLabel?: string,
+  ): Promise<string> {
+    if (opts.format === "pdf") {
+      return this.renderPdf([text], opts, normalizedFontFamily, workingFontSize)
+    }
+    const layout = this.layoutCard(text, opts, normalizedFontFamily, workingFontSize, pageLabel)
+    if (opts.format === "svg") {
+      return textToDataUrl(renderSvg(layout, opts), "image/svg+xml")
+    }
+    this.paintCard(layout, opts, await this.loadImages(opts))
+
+    // Return data URL
+    const dataUrl = this.canvas.toDataURL(`image/${opts.format}`, opts.quality)
+    return opts.metadata ? withSnapMetadata(dataUrl, opts.metadata) : dataUrl
+  }
 
+  // Layout pass: wraps the text and positions the card, every line and every styled run.
+  // All output formats paint from this, so raster and vector exports always agree.
+  private layoutCard(
+    text: string,
+    opts: ImageOptions,
+    normalizedFontFamily: string,
+    workingFontSize: number,
+    pageLabel?: string,
+  ): CardLayout {
+    const template = templateOf(opts)
+    const { inset } = template.card
     // Precompute wrapping to determine exact height so content never overflows
-    const lineHeight = workingFontSize * 1.6
-    const cardX = 48
-    const cardY = 48
-    const cardWidth = opts.width - 96
+    const cardX = inset
+    const cardY = inset
+    const cardWidth = opts.width - inset * 2
     const maxTextWidth = cardWidth - opts.padding * 2
-    const wrapped = this.wrapText(text, maxTextWidth, workingFontSize, normalizedFontFamily)
-    const paragraphSeparatorExtra = Math.max(0, wrapped.paragraphCount - 1) * lineHeight * 0.5
-    const textHeight = wrapped.lines.length * lineHeight + paragraphSeparatorExtra
-    const dynamicHeight = Math.max(opts.height, textHeight + opts.padding * 2 + 160)
+    const bodyOptions = {
+      ...opts,
+      fontSize: workingFontSize,
+      fontFamily: normalizedFontFamily,
+      textAlign: opts.textAlign ?? "center",
+    }
+
+    // Headline region: the first line, set in its own font above the body
+    const parts = template.headline ? splitHeadline(text) : null
+    const headlineOptions =
+      parts && template.headline
+        ? {
+            ...opts,
+            fontSize: Math.round(workingFontSize * template.headline.scale),
+            fontFamily: template.headline.family ? this.normalizeFontFamily(template.headline.family) : normalizedFontFamily,
+            textColor: template.headline.color ?? opts.textColor,
+            textAlign: template.headline.align ?? bodyOptions.textAlign,
+            baseStyle: { bold: template.headline.bold || undefined },
+          }
+        : null
+    const bodyText = parts ? parts.body : text
+    let headlineHeight = 0
+    if (parts && headlineOptions && template.headline) {
+      const { fontSize, fontFamily, baseStyle } = headlineOptions
+      headlineHeight = this.measureWrapped(parts.headline, maxTextWidth, fontSize, fontFamily, typographyOf(opts), baseStyle).totalHeight
+      if (bodyText.trim()) headlineHeight += fontSize * template.headline.spacingBelow
+    }
+    const bodyHeight =
+      bodyText.trim() || !parts ? this.measureWrapped(bodyText, maxTextWidth, workingFontSize, normalizedFontFamily, typographyOf(opts)).totalHeight : 0
+    const textHeight = headlineHeight + bodyHeight
+
+    // The footer's space counts toward the height so the text never runs into it
+    const footer = opts.footer ? footerMetrics(workingFontSize, template.footer.spacingAbove) : null
+    const footerSpace = footer ? footer.space : 0
+    // Each chrome style reserves its own header height above the text
+    const header = CHROME_STYLES[opts.chrome ?? "macos"].headerHeight
+    const dynamicHeight = Math.max(opts.height, textHeight + footerSpace + opts.padding * 2 + header + inset * 2 + 8)
+
+    // Card dimensions (typing area) - slightly darker to highlight area
+    const cardHeight = dynamicHeight - inset * 2
+
+    // Text content centered between the header and the footer
+    const startY = cardY + header + (cardHeight - header - footerSpace - textHeight) / 2
+    const textTop = Math.max(cardY + header + template.chrome.gap, startY)
+    const headline = parts && headlineOptions ? this.layoutText(parts.headline, cardX + opts.padding, textTop, maxTextWidth, headlineOptions) : null
+    const body = this.layoutText(bodyText, cardX + opts.padding, textTop + headlineHeight, maxTextWidth, bodyOptions)
+    const lines = headline ? [...headline.lines, ...body.lines] : body.lines
+    const codePanels = body.codePanels
+
+    const markerSize = pageMarkerSize(workingFontSize)
+    return {
+      width: opts.width,
+      height: dynamicHeight,
+      fontSize: workingFontSize,
+      fontFamily: normalizedFontFamily,
+      card: { x: cardX, y: cardY, width: cardWidth, height: cardHeight, radius: opts.borderRadius },
+      chrome: chromeShapes(
+        opts.chrome ?? "macos",
+        {
+          width: cardWidth,
+          textColor: opts.textColor,
+          cardColor: opts.cardColor || "#EFE3CF",
+          title: opts.chromeTitle || DEFAULT_CHROME_TITLE,
+        },
+        cardX,
+        cardY,
+      ),
+      lines,
+      codePanels,
+      footer:
+        opts.footer && footer
+          ? this.layoutFooter(opts.footer, cardX + opts.padding, cardY + cardHeight - opts.padding - footer.avatarSize, {
+              ...opts,
+              fontSize: workingFontSize,
+              fontFamily: normalizedFontFamily,
+              textColor: template.footer.color ?? opts.textColor,
+            })
+          : undefined,
+      logo: template.logo ? logoRect(template.logo, { x: cardX, y: cardY, width: cardWidth, height: cardHeight }) : undefined,
+      pageLabel: pageLabel
+        ? {
+            text: pageLabel,
+            x: cardX + cardWidth - 24,
+            y: cardY + cardHeight - 20 - markerSize,
+            baseline: cardY + cardHeight - 20 - markerSize + this.baselineOffset(`${markerSize}px ${normalizedFontFamily}`, markerSize),
+            size: markerSize,
+          }
+        : undefined,
+    }
+  }
+
+  // Paint a layout onto the canvas. Runs rejected by drawGlyphs keep their decorations
+  // but not their glyphs (the PDF export draws those as vector text instead). With reveal, only the
+  // first `visible` characters of the text are drawn, optionally followed by a caret (typewriter frames).
+  private paintCard(
+    layout: CardLayout,
+    opts: ImageOptions,
+    images: CardImages,
+    drawGlyphs: (run: LaidOutRun) => boolean = () => true,
+    reveal?: Pick<TypewriterFrame, "visible" | "caret">,
+  ) {
+    const { card } = layout
+
+    // The layout height grows with the text, so the size is only known here
+    const pixels = layout.width * layout.height * opts.scale ** 2
+    if (this.limits.maxPixels !== undefined && pixels > this.limits.maxPixels) {
+      throw new RenderLimitError(
+        `Image would be ${Math.round(layout.width * opts.scale)}×${Math.round(layout.height * opts.scale)} px; the limit is ${this.limits.maxPixels} pixels`,
+      )
+    }
 
     // Set canvas size
-    this.canvas.width = opts.width * opts.scale
-    this.canvas.height = dynamicHeight * opts.scale
-    this.ctx.scale(opts.scale, opts.scale)
+    this.canvas.width = layout.width * opts.scale
+    this.canvas.height = layout.height * opts.scale
+    // Absolute transform so repeated renders on the same canvas never compound the scale
+    this.ctx.setTransform(opts.scale, 0, 0, opts.scale, 0, 0)
 
     // Clear canvas
-    this.ctx.clearRect(0, 0, opts.width, dynamicHeight)
+    this.ctx.clearRect(0, 0, layout.width, layout.height)
 
     // Background
-    this.ctx.fillStyle = opts.backgroundColor
-    this.ctx.fillRect(0, 0, opts.width, dynamicHeight)
+    this.drawBackground(layout.width, layout.height, opts, images.background)
 
-    // Card dimensions (typing area) - slightly darker to highlight area
-    const cardHeight = dynamicHeight - 96
+    if (opts.cardStyle === "glass") {
+      // Frosted glass: the background blurred again inside the card, under a translucent card color.
+      // No drop shadow, matching CSS where box-shadow never shows through the element itself.
+      this.ctx.save()
+      this.ctx.beginPath()
+      this.ctx.roundRect(card.x, card.y, card.width, card.height, card.radius)
+      this.ctx.clip()
+      this.drawBackground(layout.width, layout.height, opts, images.background, GLASS_BLUR)
+      this.ctx.fillStyle = withAlpha(opts.cardColor || "#EFE3CF", GLASS_OPACITY)
+      this.ctx.fillRect(card.x, card.y, card.width, card.height)
+      this.ctx.restore()
+    } else {
+      // Draw card with shadow
+      this.drawCardWithShadow(card.x, card.y, card.width, card.height, card.radius, opts.cardColor || "#EFE3CF")
+    }
 
-    // Draw card with shadow
-    this.drawCardWithShadow(cardX, cardY, cardWidth, cardHeight, opts.borderRadius, opts.cardColor || "#EFE3CF")
+    // Window chrome on the card
+    this.drawChrome(layout.chrome, card)
 
-    // macOS traffic lights on the card
-    this.drawTrafficLights(cardX + 25, cardY + 25)
+    if (layout.logo && images.logo) {
+      this.drawLogo(layout.logo, images.logo)
+    }
 
-    // Draw text content centered
-    const textMetrics = this.measureWrapped(text, cardWidth - opts.padding * 2, workingFontSize, normalizedFontFamily)
-    const totalTextHeight = textMetrics.totalHeight
-    const startY = cardY + (cardHeight - totalTextHeight) / 2
-    await this.drawText(text, cardX + opts.padding, Math.max(cardY + 80, startY), cardWidth - opts.padding * 2, {
-      ...opts,
-      fontSize: workingFontSize,
-      fontFamily: normalizedFontFamily,
-      textAlign: "center" as any,
-    })
+    for (const panel of layout.codePanels) {
+      this.drawCodePanel(panel, layout.fontSize, opts)
+    }
+    if (layout.footer) {
+      this.drawAvatar(layout.footer.avatar, images.avatar, layout.fontFamily, opts)
+    }
+    this.ctx.textAlign = "left"
+    this.ctx.textBaseline = "top"
+    if (reveal) {
+      this.drawRevealedText(layout.lines, opts, reveal)
+    } else {
+      for (const line of layout.lines) {
+        for (const run of line.runs) this.drawRun(run, opts, drawGlyphs(run))
+      }
+    }
+    for (const line of layout.footer?.lines ?? []) {
+      for (const run of line.runs) this.drawRun(run, opts, drawGlyphs(run))
+    }
+
+    if (layout.pageLabel) {
+      this.drawPageMarker(layout.pageLabel, layout.fontFamily, opts)
+    }
 
     // No share icon in the output
+  }
 
-    // Return data URL
-    return this.canvas.toDataURL(`image/${opts.format}`, opts.quality)
+  // Typewriter frame: runs in reading order until `visible` characters are drawn, the last one cut
+  // short. Right-to-left runs fill in from their right edge. The caret sits after the last character.
+  private drawRevealedText(lines: LaidOutLine[], opts: ImageOptions, reveal: Pick<TypewriterFrame, "visible" | "caret">) {
+    let budget = reveal.visible
+    let caret: { x: number; y: number; size: number } | null = null
+    for (const line of lines) {
+      for (const run of readingOrder(line.runs)) {
+        if (budget <= 0) break
+        const graphemes = splitGraphemes(run.text)
+        let shown = run
+        if (graphemes.length > budget) {
+          const text = graphemes.slice(0, budget).join("")
+          this.ctx.font = run.font
+          this.ctx.letterSpacing = `${run.letterSpacing}px`
+          const width = this.ctx.measureText(text).width
+          this.ctx.letterSpacing = "0px"
+          const x = run.direction === "rtl" ? run.x + run.width - width : run.x
+          shown = { ...run, text, x, width }
+        }
+        budget -= graphemes.length
+        this.drawRun(shown, opts, true)
+        caret = { x: shown.direction === "rtl" ? shown.x : shown.x + shown.width, y: shown.y, size: shown.size }
+      }
+    }
+    if (reveal.caret) {
+      const first = lines.find((line) => line.runs.length > 0)?.runs[0]
+      const at = caret ?? (first ? { x: first.x, y: first.y, size: first.size } : null)
+      if (!at) return
+      this.ctx.fillStyle = opts.textColor
+      this.ctx.fillRect(at.x, at.y - at.size * 0.1, Math.max(2, at.size * 0.08), at.size * 1.2)
+    }
+  }
+
+  // PDF document with one page per text chunk. Each page is the card painted without its text,
+  // with the text laid over it as real PDF text so it stays vector and selectable.
+  // Runs the standard PDF fonts cannot encode (emoji, most non-Latin scripts) stay in the bitmap.
+  private async renderPdf(
+    pages: string[],
+    opts: ImageOptions,
+    normalizedFontFamily: string,
+    workingFontSize: number,
+  ): Promise<string> {
+    const { PdfExporter } = await import("./pdf-export")
+    const pdf = await PdfExporter.create()
+    const images = await this.loadImages(opts)
+    for (let i = 0; i < pages.length; i++) {
+      const pageLabel = pages.length > 1 ? `${i + 1}/${pages.length}` : undefined
+      const layout = this.layoutCard(pages[i], opts, normalizedFontFamily, workingFontSize, pageLabel)
+      const vector = (run: LaidOutRun) => pdf.canDrawText(run, run.family)
+      this.paintCard(layout, opts, images, (run) => !vector(run))
+      const background = dataUrlToBytes(this.canvas.toDataURL("image/png"))
+      await pdf.addPage(layout, background, vector)
+    }
+    return pdf.toDataUrl()
+  }
+
+  // Split text into slide-sized chunks at paragraph, then sentence, then word boundaries.
+  // Fit is checked with measureWrapped, so each chunk wraps exactly as it will be drawn and never overflows.
+  private splitIntoSlides(text: string, opts: ImageOptions, fontFamily: string, fontSize: number): string[] {
+    const template = templateOf(opts)
+    const { inset } = template.card
+    const maxTextWidth = opts.width - inset * 2 - opts.padding * 2
+    const footerSpace = opts.footer ? footerMetrics(fontSize, template.footer.spacingAbove).space : 0
+    const header = CHROME_STYLES[opts.chrome ?? "macos"].headerHeight
+    const capacity = opts.height - header - inset * 2 - 8 - opts.padding * 2 - pageMarkerSize(fontSize) * 4 - footerSpace
+    const typography = typographyOf(opts)
+    const fits = (chunk: string) => this.measureWrapped(chunk, maxTextWidth, fontSize, fontFamily, typography).totalHeight <= capacity
+
+    const slides: string[] = []
+    let current: string[] = []
+
+    // Add a unit to the current slide, or start a new slide when it would overflow.
+    // Returns false when the unit cannot fit even on an empty slide.
+    const place = (unit: string, separator: string): boolean => {
+      const candidate = current.length > 0 ? current.join("") + separator + unit : unit
+      if (fits(candidate)) {
+        if (current.length > 0) current.push(separator)
+        current.push(unit)
+        return true
+      }
+      if (current.length > 0 && fits(unit)) {
+        slides.push(current.join(""))
+        current = [unit]
+        return true
+      }
+      return false
+    }
+
+    const placeWords = (sentence: string, separator: string) => {
+      sentence.split(" ").forEach((word, i) => {
+        // Space-free CJK runs split further at line-break units, which join without a separator
+        splitLineBreakUnits(word).forEach((unit, j) => {
+          if (place(unit, j > 0 ? "" : i === 0 ? separator : " ")) return
+          // A single unit taller than a slide; give it its own slide rather than looping forever
+          if (current.length > 0) slides.push(current.join(""))
+          current = [unit]
+        })
+      })
+    }
+
+    const placeParagraph = (paragraph: string) => {
+      if (place(paragraph, "\n")) return
+      const sentences =
+        paragraph.match(/[^.!?\u3002\uff01\uff1f]+[.!?\u3002\uff01\uff1f]+["')\]\u300d\u300f\uff09]*\s*|[^.!?\u3002\uff01\uff1f]+$/g) || [paragraph]
+      sentences.forEach((sentence, i) => {
+        const trimmed = sentence.trim()
+        if (!trimmed) return
+        // CJK sentences follow each other without a space
+        const separator = i === 0 ? "\n" : /\s$/.test(sentences[i - 1]) ? " " : ""
+        if (!place(trimmed, separator)) placeWords(trimmed, separator)
+      })
+    }
+
+    for (const block of parseFencedBlocks(text)) {
+      if (block.kind === "code") {
+        // Keep code blocks whole when possible; otherwise split by lines, re-fencing each part
+        const fence = (lines: string[]) => ["```" + block.lang, ...lines, "```"].join("\n")
+        if (place(fence(block.lines), "\n")) continue
+        let part: string[] = []
+        for (const line of block.lines) {
+          if (part.length > 0 && !fits(fence([...part, line]))) {
+            if (!place(fence(part), "\n")) {
+              if (current.length > 0) slides.push(current.join(""))
+              current = [fence(part)]
+            }
+            part = []
+          }
+          part.push(line)
+        }
+        if (part.length > 0 && !place(fence(part), "\n")) {
+          if (current.length > 0) slides.push(current.join(""))
+          current = [fence(part)]
+        }
+        continue
+      }
+      for (const paragraph of block.text.split("\n")) {
+        // Blank paragraphs never open a slide
+        if (paragraph.trim() === "" && current.length === 0) continue
+        placeParagraph(paragraph)
+      }
+    }
+    if (current.length > 0) slides.push(current.join(""))
+    return slides.length > 0 ? slides : [text]
+  }
+
+  // Footer avatar, background photo and template logo. A missing or unloadable image is null: the avatar falls back
+  // to initials and the photo to backgroundColor. Cached per source so slides and pages decode once.
+  private async loadImages(opts: ImageOptions): Promise<CardImages> {
+    const load = (src: string | undefined) => {
+      if (!src) return Promise.resolve(null)
+      let image = this.images.get(src)
+      if (!image) {
+        image = this.loadImage(src).catch(() => null)
+        this.images.set(src, image)
+      }
+      return image
+    }
+    const [avatar, background, logo] = await Promise.all([
+      load(opts.footer?.avatarUrl),
+      load(opts.background?.kind === "photo" ? opts.background.src : undefined),
+      load(opts.template?.logo?.src),
+    ])
+    return { avatar, background, logo }
+  }
+
+  // Fill the whole canvas with opts.background (or the flat backgroundColor); extraBlur softens it further
+  private drawBackground(width: number, height: number, opts: ImageOptions, photo: CanvasImage | null, extraBlur = 0) {
+    const fill = opts.background
+    this.ctx.save()
+    if (extraBlur > 0) this.ctx.filter = `blur(${extraBlur}px)`
+    if (fill?.kind === "linear" || fill?.kind === "radial") {
+      let gradient: CanvasGradient
+      if (fill.kind === "linear") {
+        const { x0, y0, x1, y1 } = linearGradientLine(fill.angle, width, height)
+        gradient = this.ctx.createLinearGradient(x0, y0, x1, y1)
+      } else {
+        gradient = this.ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, radialGradientRadius(width, height))
+      }
+      fill.colors.forEach((color, i) => gradient.addColorStop(fill.colors.length > 1 ? i / (fill.colors.length - 1) : 0, color))
+      this.ctx.fillStyle = gradient
+      this.ctx.fillRect(0, 0, width, height)
+    } else if (fill?.kind === "pattern") {
+      this.ctx.fillStyle = fill.color
+      this.ctx.fillRect(0, 0, width, height)
+      const { size, shapes } = patternTile(fill.pattern)
+      this.ctx.fillStyle = fill.ink
+      for (let tileY = 0; tileY < height; tileY += size) {
+        for (let tileX = 0; tileX < width; tileX += size) {
+          for (const shape of shapes) {
+            this.ctx.globalAlpha = shape.alpha
+            if (shape.kind === "circle") {
+              this.ctx.beginPath()
+              this.ctx.arc(tileX + shape.cx, tileY + shape.cy, shape.r, 0, 2 * Math.PI)
+              this.ctx.fill()
+            } else {
+              this.ctx.fillRect(tileX + shape.x, tileY + shape.y, shape.width, shape.height)
+            }
+          }
+        }
+      }
+    } else if (fill?.kind === "photo" && photo) {
+      // Cover the canvas; a blurred photo is oversized so its soft edges fall outside
+      const blur = fill.blur + extraBlur
+      if (blur > 0) this.ctx.filter = `blur(${blur}px)`
+      const bleed = blur * 2
+      const { width: imageWidth, height: imageHeight } = photo
+      const scale = Math.max((width + bleed * 2) / imageWidth, (height + bleed * 2) / imageHeight)
+      this.ctx.drawImage(photo, (width - imageWidth * scale) / 2, (height - imageHeight * scale) / 2, imageWidth * scale, imageHeight * scale)
+      this.ctx.filter = "none"
+      this.ctx.fillStyle = `rgba(0, 0, 0, ${fill.dim})`
+      this.ctx.fillRect(0, 0, width, height)
+    } else {
+      this.ctx.fillStyle = opts.backgroundColor
+      this.ctx.fillRect(0, 0, width, height)
+    }
+    this.ctx.restore()
+  }
+
+  // Author footer at (x, y): avatar on the left, bold name with "@handle · date" underneath
+  private layoutFooter(footer: AuthorFooter, x: number, y: number, options: ImageOptions): FooterLayout {
+    const { fontFamily } = options
+    const { nameSize, avatarSize } = footerMetrics(options.fontSize, templateOf(options).footer.spacingAbove)
+    const metaSize = Math.max(10, Math.round(nameSize * 0.85))
+    const handle = footer.handle ? (footer.handle.startsWith("@") ? footer.handle : `@${footer.handle}`) : ""
+    const meta = [handle, footer.date].filter(Boolean).join(" · ")
+
+    const entries: Array<{ text: string; style: TextStyle; size: number; color: string }> = [
+      { text: footer.name, style: { bold: true }, size: nameSize, color: options.textColor },
+    ]
+    if (meta) entries.push({ text: meta, style: {}, size: metaSize, color: withAlpha(options.textColor, 0.6) })
+
+    // Text block vertically centered on the avatar
+    const blockHeight = entries.reduce((height, entry) => height + entry.size * 1.3, 0)
+    const textX = x + avatarSize + nameSize * 0.75
+    let currentY = y + (avatarSize - blockHeight) / 2
+    const lines: LaidOutLine[] = entries.map(({ text, style, size, color }) => {
+      const font = runFont(style, size, fontFamily)
+      this.ctx.font = font
+      const run: LaidOutRun = {
+        ...style,
+        text,
+        x: textX,
+        y: currentY,
+        baseline: currentY + this.baselineOffset(font, size),
+        width: this.ctx.measureText(text).width,
+        size,
+        font,
+        family: fontFamily,
+        weight: runWeight(style),
+        letterSpacing: 0,
+        color,
+        direction: paragraphDirection(text),
+        order: 0,
+      }
+      const line = { y: currentY, runs: [run] }
+      currentY += size * 1.3
+      return line
+    })
+
+    const initials = footer.name
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, 2)
+      .map((word) => splitGraphemes(word)[0].toUpperCase())
+      .join("")
+    return { avatar: { x, y, width: avatarSize, height: avatarSize, src: footer.avatarUrl, initials }, lines }
+  }
+
+  // Template logo scaled to fit its box without distortion
+  private drawLogo(logo: NonNullable<CardLayout["logo"]>, image: CanvasImage) {
+    const { width, height } = image
+    const scale = Math.min(logo.width / width, logo.height / height)
+    this.ctx.globalAlpha = logo.opacity
+    this.ctx.drawImage(image, logo.x + (logo.width - width * scale) / 2, logo.y + (logo.height - height * scale) / 2, width * scale, height * scale)
+    this.ctx.globalAlpha = 1
+  }
+
+  // Circular avatar; the image is scaled to cover the circle, initials on a tinted disc without one
+  private drawAvatar(avatar: FooterLayout["avatar"], image: CanvasImage | null, fontFamily: string, opts: ImageOptions) {
+    const radius = avatar.width / 2
+    const cx = avatar.x + radius
+    const cy = avatar.y + radius
+    this.ctx.save()
+    this.ctx.beginPath()
+    this.ctx.arc(cx, cy, radius, 0, 2 * Math.PI)
+    this.ctx.clip()
+    if (image) {
+      const { width, height } = image
+      const scale = Math.max(avatar.width / width, avatar.height / height)
+      this.ctx.drawImage(image, cx - (width * scale) / 2, cy - (height * scale) / 2, width * scale, height * scale)
+    } else {
+      this.ctx.globalAlpha = 0.15
+      this.ctx.fillStyle = opts.textColor
+      this.ctx.fillRect(avatar.x, avatar.y, avatar.width, avatar.height)
+      this.ctx.globalAlpha = 1
+      this.ctx.font = `bold ${Math.round(radius * 0.8)}px ${fontFamily}`
+      this.ctx.textAlign = "center"
+      this.ctx.textBaseline = "middle"
+      this.ctx.fillText(avatar.initials, cx, cy)
+    }
+    this.ctx.restore()
+  }
+
+  // "2/5" marker in the card's bottom-right corner
+  private drawPageMarker(label: NonNullable<CardLayout["pageLabel"]>, fontFamily: string, opts: ImageOptions) {
+    this.ctx.font = `${label.size}px ${fontFamily}`
+    this.ctx.fillStyle = opts.textColor
+    this.ctx.globalAlpha = 0.6
+    this.ctx.textAlign = "right"
+    this.ctx.fillText(label.text, label.x, label.y)
+    this.ctx.globalAlpha = 1
+    this.ctx.textAlign = "left"
   }
 
   private drawCardWithShadow(
@@ -155,199 +883,589 @@ export class ImageGenerator {
     }
   }
 
-  private drawTrafficLights(x: number, y: number) {
-    // Red
-    this.ctx.fillStyle = "#ff5f57"
+  // Chrome bars span the card's full width, so they are clipped to its rounded corners
+  private drawChrome(shapes: ChromeShape[], card: CardLayout["card"]) {
+    this.ctx.save()
     this.ctx.beginPath()
-    this.ctx.arc(x, y, 6, 0, 2 * Math.PI)
-    this.ctx.fill()
+    this.ctx.roundRect(card.x, card.y, card.width, card.height, card.radius)
+    this.ctx.clip()
+    for (const shape of shapes) {
+      this.ctx.globalAlpha = shape.alpha ?? 1
+      this.ctx.fillStyle = shape.fill
+      if (shape.kind === "circle") {
+        this.ctx.beginPath()
+        this.ctx.arc(shape.cx, shape.cy, shape.r, 0, 2 * Math.PI)
+        this.ctx.fill()
+      } else if (shape.kind === "rect") {
+        this.ctx.beginPath()
+        this.ctx.roundRect(shape.x, shape.y, shape.width, shape.height, shape.radius ?? 0)
+        this.ctx.fill()
+      } else {
+        this.ctx.font = `${shape.bold ? "bold " : ""}${shape.size}px ${CHROME_FONT}`
+        this.ctx.textAlign = shape.align
+        this.ctx.textBaseline = "middle"
+        this.ctx.fillText(shape.text, shape.x, shape.y)
+      }
+    }
+    this.ctx.restore()
+  }
 
-    // Yellow
-    this.ctx.fillStyle = "#ffbd2e"
-    this.ctx.beginPath()
-    this.ctx.arc(x + 20, y, 6, 0, 2 * Math.PI)
-    this.ctx.fill()
+  // Position every wrapped line and styled run inside the text box starting at (x, y)
+  private layoutText(
+    text: string,
+    x: number,
+    y: number,
+    maxWidth: number,
+    options: ImageOptions & { baseStyle?: TextStyle },
+  ): { lines: LaidOutLine[]; codePanels: Rect[] } {
+    const align = options.textAlign || "left"
+    const { fontSize, fontFamily } = options
+    const typography = typographyOf(options)
+    const lineHeight = fontSize * typography.lineHeight
+    const letterSpacing = typography.letterSpacing * fontSize
+    const wrapped = this.wrapText(text, maxWidth, fontSize, fontFamily, typography, options.baseStyle)
+    const palette = { ...paletteForBackground(options.cardColor), ...options.syntaxColors }
+    const lines: LaidOutLine[] = []
+    const codePanels: Rect[] = []
+    let currentY = y
 
-    // Green
-    this.ctx.fillStyle = "#28ca42"
+    wrapped.lines.forEach((line, index) => {
+      if (line === PARA_BREAK) {
+        currentY += lineHeight * typography.paragraphSpacing
+        return
+      }
+      // Justified prose stretches every line but the last of its paragraph
+      const next = wrapped.lines[index + 1]
+      const justify = align === "justify" && !line.block && next !== undefined && next !== PARA_BREAK
+      // Code blocks align as a whole; their lines stay left-aligned inside the block
+      const boxWidth = line.block ? line.block.width : line.width
+      const lineAlign = physicalAlign(align, line.direction)
+      let lineX = x
+      if (lineAlign === "center") lineX = x + (maxWidth - boxWidth) / 2
+      else if (lineAlign === "right") lineX = x + maxWidth - boxWidth
+      if (line.block && line.block.index === 0) {
+        // Tinted panel behind a fenced code block, sized to its widest line
+        const inset = fontSize * 0.6
+        codePanels.push({
+          x: lineX - inset,
+          y: currentY - inset,
+          width: line.block.width + inset * 2,
+          height: (line.block.count - 1) * lineHeight + fontSize + inset * 2,
+        })
+      }
+      const runs: LaidOutRun[] = []
+      for (const run of justify ? splitAtSpaces(visualRuns(line)) : visualRuns(line)) {
+        const font = runFont(run, fontSize, fontFamily, typography.fontWeight)
+        const baseline = currentY + this.baselineOffset(font, fontSize)
+        this.ctx.font = font
+        this.ctx.letterSpacing = `${letterSpacing}px`
+        const width = this.ctx.measureText(run.text).width
+        this.ctx.letterSpacing = "0px"
+        const color = run.token && run.token !== "plain" ? palette[run.token] : options.textColor
+        const weight = runWeight(run, typography.fontWeight)
+        runs.push({ ...run, x: lineX, y: currentY, baseline, width, size: fontSize, font, family: fontFamily, weight, letterSpacing, color, direction: run.direction })
+        lineX += width
+      }
+      if (justify) justifyRuns(runs, x, maxWidth)
+      lines.push({ y: currentY, runs })
+      currentY += lineHeight
+    })
+    return { lines, codePanels }
+  }
+
+  // Distance from the top of the em box (textBaseline "top", used for drawing) to the alphabetic
+  // baseline, so vector exports that position text by baseline land exactly where the canvas draws it
+  private baselineOffset(font: string, fontSize: number): number {
+    this.ctx.font = font
+    this.ctx.textBaseline = "alphabetic"
+    const alphabetic = this.ctx.measureText("Hg").actualBoundingBoxAscent
+    this.ctx.textBaseline = "top"
+    const top = this.ctx.measureText("Hg").actualBoundingBoxAscent
+    const offset = alphabetic - top
+    return Number.isFinite(offset) && offset > 0 ? offset : fontSize * 0.8
+  }
+
+  private drawCodePanel(panel: Rect, fontSize: number, options: ImageOptions) {
+    this.ctx.globalAlpha = 0.08
+    this.ctx.fillStyle = options.textColor
     this.ctx.beginPath()
-    this.ctx.arc(x + 40, y, 6, 0, 2 * Math.PI)
+    this.ctx.roundRect(panel.x, panel.y, panel.width, panel.height, fontSize * 0.4)
     this.ctx.fill()
+    this.ctx.globalAlpha = 1
   }
 
-  private async drawText(text: string, x: number, y: number, maxWidth: number, options: ImageOptions) {
-    this.ctx.fillStyle = options.textColor
-    this.ctx.font = `${options.fontSize}px ${options.fontFamily}`
-    this.ctx.textAlign = options["textAlign" as never] || "left"
-    this.ctx.textBaseline = "top"
+  // Draws one positioned run: inline-code pill, glyphs and strike line
+  private drawRun(run: LaidOutRun, options: ImageOptions, drawGlyphs: boolean) {
+    const { x, y, width, size: fontSize } = run
+    if (run.code) {
+      // Subtle pill behind inline code, tinted from the text color
+      this.ctx.globalAlpha = 0.12
+      this.ctx.fillStyle = options.textColor
+      this.ctx.beginPath()
+      this.ctx.roundRect(x - fontSize * 0.15, y - fontSize * 0.15, width + fontSize * 0.3, fontSize * 1.3, fontSize * 0.25)
+      this.ctx.fill()
+      this.ctx.globalAlpha = 1
+    }
+    this.ctx.fillStyle = run.color
+    if (drawGlyphs) {
+      this.ctx.font = run.font
+      this.ctx.direction = run.direction
+      this.ctx.letterSpacing = `${run.letterSpacing}px`
+      this.ctx.fillText(run.text, x, y)
+      this.ctx.letterSpacing = "0px"
+      this.ctx.direction = "ltr"
+    }
+    if (run.strike) {
+      this.ctx.fillRect(x, y + fontSize * 0.55, width, Math.max(1, fontSize * 0.07))
+    }
+  }
 
-    const lineHeight = options.fontSize * 1.6
-    const wrapped = this.wrapText(text, maxWidth, options.fontSize, options.fontFamily)
-    let currentY = y
+  // Normalize CSS variable based font stacks (from next/font) into concrete family names for Canvas API
+  // For example: 'var(--font-space-mono), monospace' -> '"Space Mono", monospace'
+  // Also strips any raw var(...) tokens that Canvas cannot interpret.
+  private normalizeFontFamily(fontFamily: string): string {
+    let normalized = fontFamily
+    // In the browser, resolve next/font variables to the (hashed) families the editor's DOM actually uses
+    if (typeof document !== "undefined" && document.body) {
+      const styles = getComputedStyle(document.body)
+      normalized = normalized.replace(/var\((--[\w-]+)\)/g, (token, name: string) => styles.getPropertyValue(name).trim() || token)
+    }
+    // Elsewhere (server renders) map them to the families registered in lib/fonts.ts
+    normalized = resolveFontVariables(normalized)
+    // Remove any remaining var(...) tokens just in case
+    normalized = normalized.replace(/var\([^)]*\)\s*,?/g, "")
+    // Collapse duplicate commas and whitespace
+    normalized = normalized.replace(/\s*,\s*,+/g, ", ").trim()
+    // Ensure there is at least one fallback
+    if (!/monospace|serif|sans-serif/.test(normalized)) {
+      normalized = `${normalized}, monospace`
+    }
+    return normalized
+  }
+
+  // Text wrapping helpers to ensure content does not overflow the card.
+  // Paragraphs are parsed into styled runs so bold/italic words are measured in their own font;
+  // fenced code blocks keep their lines verbatim and are never reflowed.
+  private wrapText(
+    text: string,
+    maxWidth: number,
+    fontSize: number,
+    fontFamily: string,
+    typography: Typography,
+    // Style applied under the inline markup of every prose run (e.g. a bold headline)
+    baseStyle: TextStyle = {},
+  ): { lines: Array<WrappedLine | typeof PARA_BREAK>; paragraphCount: number } {
+    const ctx = this.ctx
+    const allLines: Array<WrappedLine | typeof PARA_BREAK> = []
+    let paragraphCount = 0
+    const letterSpacing = `${typography.letterSpacing * fontSize}px`
+
+    const measure = (runs: TextRun[]) =>
+      runs.reduce((width, run) => {
+        ctx.font = runFont(run, fontSize, fontFamily, typography.fontWeight)
+        ctx.letterSpacing = letterSpacing
+        const runWidth = ctx.measureText(run.text).width
+        ctx.letterSpacing = "0px"
+        return width + runWidth
+      }, 0)
 
-    let currentParagraphIndex = 0
-    wrapped.lines.forEach((line) => {
-      if (line === "__PARA_BREAK__") {
-        currentParagraphIndex += 1
-        currentY += lineHeight * 0.5
+    const wrapCode = (lang: string, lines: string[]) => {
+      const tokenized = tokenizeCode(lines, lang).map((tokens) => tokens.map((t) => ({ text: t.text, token: t.type })))
+      const widths = tokenized.map((runs) => measure(runs))
+      const info = { width: Math.max(0, ...widths), count: lines.length }
+      tokenized.forEach((runs, index) => {
+        allLines.push({ runs, width: widths[index], direction: "ltr", block: { ...info, index } })
+      })
+    }
+
+    const wrapParagraph = (paragraph: string) => {
+      if (paragraph.trim() === "") {
+        // Preserve empty line
+        allLines.push({ runs: [], width: 0, direction: "ltr" })
         return
       }
-      if (this.ctx.textAlign === "center") {
-        this.ctx.fillText(line, x + maxWidth / 2, currentY)
-      } else {
-        this.ctx.fillText(line, x, currentY)
+
+      // Lines are broken in logical order; layoutText reorders each line visually for RTL/mixed text
+      const styledRuns = parseInlineMarkup(paragraph).map((run) => ({ ...baseStyle, ...run }))
+      const direction = paragraphDirection(styledRuns.map((r) => r.text).join(""))
+
+      // Split styled runs into words; a word may mix styles (e.g. **bo**ld)
+      const spacedWords: TextRun[][] = [[]]
+      for (const run of styledRuns) {
+        run.text.split(" ").forEach((part, i) => {
+          if (i > 0) spacedWords.push([])
+          if (part) spacedWords[spacedWords.length - 1].push({ ...run, text: part })
+        })
       }
-      currentY += lineHeight
-    })
-  }
-}
 
-// Normalize CSS variable based font stacks (from next/font) into concrete family names for Canvas API
-// For example: 'var(--font-jetbrains-mono), monospace' -> '"JetBrains Mono", monospace'
-// Also strips any raw var(...) tokens that Canvas cannot interpret.
-ImageGenerator.prototype["normalizeFontFamily"] = function (fontFamily: string): string {
-  let normalized = fontFamily
-  normalized = normalized.replace(/var\(--font-jetbrains-mono\)/g, '"JetBrains Mono"')
-  normalized = normalized.replace(/var\(--font-fira-code\)/g, '"Fira Code"')
-  normalized = normalized.replace(/var\(--font-source-code-pro\)/g, '"Source Code Pro"')
-  // Remove any remaining var(...) tokens just in case
-  normalized = normalized.replace(/var\([^)]*\)\s*,?/g, "")
-  // Collapse duplicate commas and whitespace
-  normalized = normalized.replace(/\s*,\s*,+/g, ", ").trim()
-  // Ensure there is at least one fallback
-  if (!/monospace|serif|sans-serif/.test(normalized)) {
-    normalized = `${normalized}, monospace`
-  }
-  return normalized
-} as any
-
-// Text wrapping helpers to ensure content does not overflow the card
-ImageGenerator.prototype["wrapText"] = function (
-  text: string,
-  maxWidth: number,
-  fontSize: number,
-  fontFamily: string,
-): { lines: string[]; paragraphCount: number } {
-  const ctx = this.ctx as CanvasRenderingContext2D
-  ctx.font = `${fontSize}px ${fontFamily}`
-  const paragraphs = text.split("\n")
-  const allLines: string[] = []
-  let totalHeight = 0
-
-  paragraphs.forEach((paragraph, idx) => {
-    if (idx > 0) {
-      allLines.push("__PARA_BREAK__")
-    }
-
-    if (paragraph.trim() === "") {
-      // Preserve empty line
-      allLines.push("")
-      totalHeight += fontSize * 1.6
-      return
-    }
-
-    const words = paragraph.split(" ")
-    let currentLine = ""
-
-    const pushLine = () => {
-      if (currentLine.length > 0 || allLines.length === 0 || allLines[allLines.length - 1] !== "") {
-        allLines.push(currentLine)
-        totalHeight += fontSize * 1.6
+      // CJK text has no spaces, so each word is further split into line-break units (kinsoku rules);
+      // units of the same word join without a space
+      const words: BreakUnit[] = []
+      for (const word of spacedWords) {
+        if (word.length === 0) continue
+        let offset = 0
+        for (const unit of splitLineBreakUnits(word.map((r) => r.text).join(""))) {
+          words.push({ runs: sliceRuns(word, offset, offset + unit.length), spaced: offset === 0 })
+          offset += unit.length
+        }
       }
-      currentLine = ""
-    }
 
-    const measure = (s: string) => ctx.measureText(s).width
+      let currentLine: TextRun[] = []
 
-    const splitLongWord = (word: string) => {
-      // Break a single long word into chunks that fit maxWidth
-      let chunk = ""
-      for (const ch of word) {
-        const next = chunk + ch
-        if (measure(next) > maxWidth) {
-          if (chunk.length === 0) {
-            // Force at least one char to avoid infinite loop
-            allLines.push(ch)
-            totalHeight += fontSize * 1.6
-          } else {
-            allLines.push(chunk)
-            totalHeight += fontSize * 1.6
-            chunk = ch
-          }
-        } else {
+      const join = (line: TextRun[], word: TextRun[], spaced = true) =>
+        line.length === 0
+          ? word
+          : spaced
+            ? [...line, spaceBetween(line[line.length - 1], word[0]), ...word]
+            : [...line, ...word]
+
+      const pushLine = () => {
+        const runs = mergeRuns(currentLine)
+        allLines.push({ runs, width: measure(runs), direction })
+        currentLine = []
+      }
+
+      const splitLongWord = (word: TextRun[]) => {
+        // Break a single long word into chunks that fit maxWidth: first at word-segment boundaries
+        // (the "/" or "-" in a URL), then between grapheme clusters, never inside one
+        let chunk: TextRun[] = []
+        const flushChunk = () => {
+          currentLine = chunk
+          pushLine()
+          chunk = []
+        }
+        const tryAppend = (piece: TextRun) => {
+          const next = [...chunk, piece]
+          if (measure(next) > maxWidth) return false
           chunk = next
+          return true
         }
-      }
-      if (chunk) {
-        if (currentLine) {
+        for (const run of word) {
+          for (const segment of splitWordSegments(run.text)) {
+            const segmentRun = { ...run, text: segment }
+            if (tryAppend(segmentRun)) continue
+            if (chunk.length > 0 && measure([segmentRun]) <= maxWidth) {
+              flushChunk()
+              chunk = [segmentRun]
+              continue
+            }
+            for (const grapheme of splitGraphemes(segment)) {
+              const piece = { ...run, text: grapheme }
+              if (tryAppend(piece)) continue
+              if (chunk.length > 0) flushChunk()
+              // A lone cluster wider than the line still goes on its own line to avoid an infinite loop
+              chunk = [piece]
+            }
+          }
+        }
+        if (chunk.length > 0) {
           // Try to append to current line if possible
-          const candidate = currentLine + (currentLine ? " " : "") + chunk
-          if (measure(candidate) <= maxWidth) {
-            currentLine = candidate
-          } else {
+          const candidate = join(currentLine, chunk)
+          if (currentLine.length > 0 && measure(candidate) > maxWidth) {
             pushLine()
             currentLine = chunk
+          } else {
+            currentLine = candidate
           }
+        }
+      }
+
+      for (const { runs: word, spaced } of words) {
+        const tentative = join(currentLine, word, spaced)
+        if (measure(tentative) <= maxWidth) {
+          currentLine = tentative
+          continue
+        }
+        // Current line full; push and start new line
+        if (currentLine.length > 0) pushLine()
+
+        if (measure(word) <= maxWidth) {
+          currentLine = word
         } else {
-          currentLine = chunk
+          // Very long word; split by characters
+          splitLongWord(word)
         }
       }
+
+      if (currentLine.length > 0) pushLine()
     }
 
-    for (const word of words) {
-      const tentative = currentLine + (currentLine ? " " : "") + word
-      if (measure(tentative) <= maxWidth) {
-        currentLine = tentative
+    for (const block of parseFencedBlocks(text)) {
+      if (block.kind === "code") {
+        if (paragraphCount > 0) allLines.push(PARA_BREAK)
+        paragraphCount += 1
+        wrapCode(block.lang, block.lines)
         continue
       }
-      // Current line full; push and start new line
-      if (currentLine) pushLine()
-
-      if (measure(word) <= maxWidth) {
-        currentLine = word
-      } else {
-        // Very long word; split by characters
-        splitLongWord(word)
+      for (const paragraph of block.text.split("\n")) {
+        if (paragraphCount > 0) allLines.push(PARA_BREAK)
+        paragraphCount += 1
+        wrapParagraph(paragraph)
       }
     }
 
-    if (currentLine) pushLine()
+    return { lines: allLines, paragraphCount }
+  }
+
+  // Helper to measure wrapped height for vertical centering; derived from wrapText so they never disagree
+  private measureWrapped(
+    text: string,
+    maxWidth: number,
+    fontSize: number,
+    fontFamily: string,
+    typography: Typography,
+    baseStyle?: TextStyle,
+  ) {
+    const lineHeight = fontSize * typography.lineHeight
+    const wrapped = this.wrapText(text, maxWidth, fontSize, fontFamily, typography, baseStyle)
+    const totalHeight = wrapped.lines.reduce(
+      (height, line) => height + (line === PARA_BREAK ? lineHeight * typography.paragraphSpacing : lineHeight),
+      0,
+    )
+    return { totalHeight }
+  }
+}
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// A styled run placed on the card; (x, y) is the top-left of its text box, baseline its alphabetic baseline
+export interface LaidOutRun extends TextRun {
+  x: number
+  y: number
+  baseline: number
+  width: number
+  size: number
+  font: string
+  // Font stack the run was measured with; a headline can use a different one than the body
+  family: string
+  // CSS weight and letter spacing (px) the run was measured with
+  weight: number
+  letterSpacing: number
+  color: string
+  // Direction the run's glyphs are drawn in; runs are already in visual order left to right
+  direction: Direction
+  // Place of the run's text in the line's logical order; words split off one run share it
+  order: number
+}
+
+export interface LaidOutLine {
+  y: number
+  runs: LaidOutRun[]
+}
+
+// Output of the layout pass, in unscaled pixels
+export interface CardLayout {
+  width: number
+  height: number
+  fontSize: number
+  fontFamily: string
+  card: Rect & { radius: number }
+  chrome: ChromeShape[]
+  lines: LaidOutLine[]
+  codePanels: Rect[]
+  footer?: FooterLayout
+  logo?: Rect & { src: string; opacity: number }
+  pageLabel?: { text: string; x: number; y: number; baseline: number; size: number }
+}
+
+// Images a card paints besides text; null when absent or unloadable
+interface CardImages {
+  avatar: CanvasImage | null
+  background: CanvasImage | null
+  logo: CanvasImage | null
+}
+
+export interface FooterLayout {
+  avatar: Rect & { src?: string; initials: string }
+  lines: LaidOutLine[]
+}
+
+// A wrapped line is a list of styled runs plus its measured width for alignment
+interface WrappedLine {
+  runs: TextRun[]
+  width: number
+  // Paragraph direction; runs stay in logical order until layout
+  direction: Direction
+  block?: CodeBlockInfo
+}
+
+// Position of a code line within its fenced block; width is the widest line of the block
+interface CodeBlockInfo {
+  width: number
+  index: number
+  count: number
+}
+
+// A piece of a paragraph the wrapper never splits unless it is wider than a line on its own
+interface BreakUnit {
+  runs: TextRun[]
+  // Whether a space separates this unit from the previous one (false inside CJK text)
+  spaced: boolean
+}
+
+const PARA_BREAK = "__PARA_BREAK__"
+
+// Alignment mirrors in right-to-left paragraphs: "left" means the start edge, "right" the end edge
+function physicalAlign(align: TextAlign, direction: Direction): "left" | "center" | "right" {
+  if (align === "center") return "center"
+  // Justified lines span the full width; a paragraph's last line sits at the start edge
+  const atStart = align === "left" || align === "justify"
+  return atStart === (direction === "ltr") ? "left" : "right"
+}
+
+// Split prose runs into words and the spaces between them so justification can widen each gap.
+// Inline code stays whole: its spaces are part of the code. The runs are in visual order, so the words
+// of a right-to-left run are placed last word first.
+function splitAtSpaces<T extends TextRun & { direction: Direction }>(runs: T[]): T[] {
+  return runs.flatMap((run) => {
+    if (run.code) return [run]
+    const pieces = run.text.split(/( +)/).filter(Boolean).map((text) => ({ ...run, text }))
+    return run.direction === "rtl" ? pieces.reverse() : pieces
   })
+}
 
-  return { lines: allLines, paragraphCount: paragraphs.length }
-} as any
-
-// Helper to measure wrapped height for vertical centering
-ImageGenerator.prototype["measureWrapped"] = function (
-  text: string,
-  maxWidth: number,
-  fontSize: number,
-  fontFamily: string,
-) {
-  const ctx = this.ctx as CanvasRenderingContext2D
-  ctx.font = `${fontSize}px ${fontFamily}`
-  const paragraphs = text.split("\n")
-  const lineHeight = fontSize * 1.6
-  let totalHeight = 0
-  paragraphs.forEach((p, idx) => {
-    if (idx > 0) totalHeight += lineHeight * 0.5
-    if (p.trim() === "") {
-      totalHeight += lineHeight
-      return
-    }
-    const words = p.split(" ")
-    let current = ""
-    const measure = (s: string) => ctx.measureText(s).width
-    for (const word of words) {
-      const tentative = current + (current ? " " : "") + word
-      if (measure(tentative) <= maxWidth) {
-        current = tentative
-      } else {
-        totalHeight += lineHeight
-        current = word
-      }
+// Stretch the space runs between words so the line spans [x, x + maxWidth]. Leading and trailing
+// spaces keep their width; a line without inner gaps (one word, or CJK) is left as it is.
+function justifyRuns(runs: LaidOutRun[], x: number, maxWidth: number) {
+  const isSpace = (run: LaidOutRun) => !run.code && run.text.trim() === ""
+  const first = runs.findIndex((run) => !isSpace(run))
+  const last = runs.findLastIndex((run) => !isSpace(run))
+  const gaps = runs.filter((run, i) => i > first && i < last && isSpace(run))
+  const used = runs.reduce((sum, run) => sum + run.width, 0)
+  if (gaps.length === 0 || used >= maxWidth) return
+  const extra = (maxWidth - used) / gaps.length
+  let cursor = x
+  for (const run of runs) {
+    run.x = cursor
+    if (gaps.includes(run)) run.width += extra
+    cursor += run.width
+  }
+}
+
+// Split a line's runs at bidi level changes and return them in visual order, each with its drawing
+// direction and its place in logical order
+function visualRuns(line: WrappedLine): Array<TextRun & { direction: Direction; order: number }> {
+  const text = line.runs.map((r) => r.text).join("")
+  if (line.direction === "ltr" && !hasRtlText(text)) {
+    return line.runs.map((run, order) => ({ ...run, direction: "ltr" as const, order }))
+  }
+  const levels = resolveLevels(text, line.direction)
+  const segments: Array<TextRun & { level: number; order: number }> = []
+  let index = 0
+  for (const run of line.runs) {
+    for (const ch of run.text) {
+      const level = levels[index++]
+      const last = segments[segments.length - 1]
+      if (last && last.level === level && sameStyle(last, run)) last.text += ch
+      else segments.push({ ...run, text: ch, level, order: segments.length })
     }
-    if (current) totalHeight += lineHeight
-  })
-  return { totalHeight }
-} as any
+  }
+  return reorderVisually(segments).map(({ level, ...run }) => ({
+    ...run,
+    direction: level % 2 === 1 ? ("rtl" as const) : ("ltr" as const),
+  }))
+}
+
+// A laid-out line's runs in the order they are read: logical order, and within a run split into words,
+// right to left when the run is right-to-left
+function readingOrder(runs: LaidOutRun[]): LaidOutRun[] {
+  return [...runs].sort((a, b) => a.order - b.order || (a.direction === "rtl" ? b.x - a.x : a.x - b.x))
+}
+
+// Footer sizes follow the body font: name size, avatar diameter, and the space reserved under the text
+function footerMetrics(fontSize: number, spacingAbove: number) {
+  const nameSize = Math.max(12, Math.round(fontSize * 0.75))
+  const avatarSize = Math.round(nameSize * 2.6)
+  return { nameSize, avatarSize, space: avatarSize + fontSize * spacingAbove }
+}
+
+const templateOf = (opts: ImageOptions) => opts.template ?? DEFAULT_TEMPLATE
+
+type Typography = Required<Pick<ImageOptions, "lineHeight" | "letterSpacing" | "paragraphSpacing" | "fontWeight">>
+
+const typographyOf = (opts: ImageOptions): Typography => ({
+  lineHeight: opts.lineHeight ?? 1.6,
+  letterSpacing: opts.letterSpacing ?? 0,
+  paragraphSpacing: opts.paragraphSpacing ?? 0.5,
+  fontWeight: opts.fontWeight ?? 400,
+})
+
+// Defaults, then the caller's options, then whatever the layout template declares
+function resolveOptions(options: Partial<ImageOptions>): ImageOptions {
+  const opts = { ...defaultImageOptions, ...options }
+  const template = templateOf(opts)
+  return {
+    ...opts,
+    backgroundColor: template.colors.background ?? opts.backgroundColor,
+    cardColor: template.colors.card ?? opts.cardColor,
+    textColor: template.colors.text ?? opts.textColor,
+    fontFamily: template.body.family ?? opts.fontFamily,
+    padding: template.card.padding ?? opts.padding,
+    textAlign: template.body.align ?? opts.textAlign,
+    borderRadius: template.card.radius ?? opts.borderRadius,
+    chrome: template.chrome.style ?? opts.chrome,
+    chromeTitle: template.chrome.title ?? opts.chromeTitle,
+  }
+}
+
+// Box of a template logo inside the card, anchored to its corner
+function logoRect(logo: NonNullable<LayoutTemplate["logo"]>, card: Rect): NonNullable<CardLayout["logo"]> {
+  const left = logo.position.endsWith("left")
+  const top = logo.position.startsWith("top")
+  return {
+    x: left ? card.x + logo.margin : card.x + card.width - logo.margin - logo.width,
+    y: top ? card.y + logo.margin : card.y + card.height - logo.margin - logo.height,
+    width: logo.width,
+    height: logo.height,
+    src: logo.src,
+    opacity: logo.opacity,
+  }
+}
+
+const pageMarkerSize = (fontSize: number) => Math.max(12, Math.round(fontSize * 0.6))
+
+const sameStyle = (a: TextRun, b: TextRun) =>
+  !!a.bold === !!b.bold &&
+  !!a.italic === !!b.italic &&
+  !!a.code === !!b.code &&
+  !!a.strike === !!b.strike &&
+  a.token === b.token
+
+// The space between two words keeps only the styles both sides share, so ~~a b~~ strikes through the gap
+function spaceBetween(left: TextStyle, right: TextStyle): TextRun {
+  const run: TextRun = { text: " " }
+  if (left.bold && right.bold) run.bold = true
+  if (left.italic && right.italic) run.italic = true
+  if (left.code && right.code) run.code = true
+  if (left.strike && right.strike) run.strike = true
+  return run
+}
+
+// The styled runs covering [start, end) of the runs' concatenated text
+function sliceRuns(runs: TextRun[], start: number, end: number): TextRun[] {
+  const sliced: TextRun[] = []
+  let offset = 0
+  for (const run of runs) {
+    const from = Math.max(start, offset)
+    const to = Math.min(end, offset + run.text.length)
+    if (from < to) sliced.push({ ...run, text: run.text.slice(from - offset, to - offset) })
+    offset += run.text.length
+  }
+  return sliced
+}
+
+// Coalesce adjacent runs with identical styles so each line draws with as few fillText calls as possible
+function mergeRuns(runs: TextRun[]): TextRun[] {
+  const merged: TextRun[] = []
+  for (const run of runs) {
+    const last = merged[merged.length - 1]
+    if (last && sameStyle(last, run)) last.text += run.text
+    else merged.push({ ...run })
+  }
+  return merged
+}
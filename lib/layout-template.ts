@@ -0,0 +1,109 @@
+import { z } from "zod"
+import { CHROME_STYLES, type ChromeId } from "./chrome"
+import branded from "./templates/branded.json"
+import classic from "./templates/classic.json"
+import headline from "./templates/headline.json"
+import minimal from "./templates/minimal.json"
+
+// Card layouts as data. A template declares the card's regions (chrome, headline, body, footer,
+// logo) with their fonts, spacing and colors; ImageGenerator renders any snap into it. Templates
+// are plain JSON, validated with layoutTemplateSchema wherever they enter: built-ins, editor
+// uploads and the render API. Sizes are in px; headline and footer spacing are in em.
+
+const colorSchema = z.string().max(64)
+const alignSchema = z.enum(["left", "center", "right", "justify"])
+const chromeIds = Object.keys(CHROME_STYLES) as [ChromeId, ...ChromeId[]]
+
+export const layoutTemplateSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9-]+$/, "id must be lowercase letters, digits and dashes").max(64),
+    name: z.string().min(1).max(64),
+    card: z
+      .object({
+        // Space between the canvas edge and the card
+        inset: z.number().min(0).max(400).default(48),
+        radius: z.number().min(0).max(400).optional(),
+        padding: z.number().min(0).max(400).optional(),
+      })
+      .strict()
+      .default({}),
+    // Override the theme's colors
+    colors: z.object({ background: colorSchema, card: colorSchema, text: colorSchema }).partial().strict().default({}),
+    chrome: z
+      .object({
+        style: z.enum(chromeIds).optional(),
+        title: z.string().max(100).optional(),
+        // Minimum space between the chrome header and the text
+        gap: z.number().min(0).max(400).default(24),
+      })
+      .strict()
+      .default({}),
+    // When present, the snap's first line is set as a headline above the body
+    headline: z
+      .object({
+        family: z.string().max(300).optional(),
+        // Relative to the body font size
+        scale: z.number().min(0.5).max(4).default(1.5),
+        bold: z.boolean().default(true),
+        color: colorSchema.optional(),
+        align: alignSchema.optional(),
+        spacingBelow: z.number().min(0).max(10).default(0.8),
+      })
+      .strict()
+      .optional(),
+    body: z
+      .object({
+        family: z.string().max(300).optional(),
+        align: alignSchema.optional(),
+      })
+      .strict()
+      .default({}),
+    footer: z
+      .object({
+        spacingAbove: z.number().min(0).max(10).default(1.6),
+        color: colorSchema.optional(),
+      })
+      .strict()
+      .default({}),
+    logo: z
+      .object({
+        // Data URL or a path under public/, e.g. "/placeholder-logo.png"
+        src: z.string().min(1).max(2_000_000),
+        width: z.number().min(1).max(1000),
+        height: z.number().min(1).max(1000),
+        position: z.enum(["top-left", "top-right", "bottom-left", "bottom-right"]).default("top-right"),
+        margin: z.number().min(0).max(400).default(24),
+        opacity: z.number().min(0).max(1).default(1),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+
+export type LayoutTemplate = z.output<typeof layoutTemplateSchema>
+
+// Validate untrusted template JSON, reporting the first problem as "path: message"
+export function parseLayoutTemplate(data: unknown): { ok: true; template: LayoutTemplate } | { ok: false; error: string } {
+  const parsed = layoutTemplateSchema.safeParse(data)
+  if (parsed.success) return { ok: true, template: parsed.data }
+  const issue = parsed.error.issues[0]
+  const path = issue.path.join(".")
+  return { ok: false, error: path ? `${path}: ${issue.message}` : issue.message }
+}
+
+export const BUILT_IN_TEMPLATES: LayoutTemplate[] = [classic, headline, minimal, branded].map((json) =>
+  layoutTemplateSchema.parse(json),
+)
+
+// The layout ImageGenerator always used: 48px inset, centered text under macOS chrome
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0]
+
+// Split off the snap's first line for a headline region; fenced code never becomes a headline
+export function splitHeadline(text: string): { headline: string; body: string } | null {
+  const lines = text.split("\n")
+  const first = lines.findIndex((line) => line.trim() !== "")
+  if (first === -1 || lines[first].trimStart().startsWith("```")) return null
+  const rest = lines.slice(first + 1)
+  while (rest.length > 0 && rest[0].trim() === "") rest.shift()
+  return { headline: lines[first].trim(), body: rest.join("\n") }
+}
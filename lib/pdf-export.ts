@@ -0,0 +1,124 @@
+import {
+  PDFDocument,
+  StandardFonts,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  setCharacterSqueeze,
+  type PDFFont,
+} from "pdf-lib"
+import type { CardLayout, LaidOutRun } from "./image-generator"
+
+type FontKey = "regular" | "bold" | "italic" | "boldItalic"
+
+// Standard PDF fonts need no embedding; pick the family closest to the card's font stack
+const STANDARD_FAMILIES: Record<"mono" | "serif" | "sans", Record<FontKey, StandardFonts>> = {
+  mono: {
+    regular: StandardFonts.Courier,
+    bold: StandardFonts.CourierBold,
+    italic: StandardFonts.CourierOblique,
+    boldItalic: StandardFonts.CourierBoldOblique,
+  },
+  serif: {
+    regular: StandardFonts.TimesRoman,
+    bold: StandardFonts.TimesRomanBold,
+    italic: StandardFonts.TimesRomanItalic,
+    boldItalic: StandardFonts.TimesRomanBoldItalic,
+  },
+  sans: {
+    regular: StandardFonts.Helvetica,
+    bold: StandardFonts.HelveticaBold,
+    italic: StandardFonts.HelveticaOblique,
+    boldItalic: StandardFonts.HelveticaBoldOblique,
+  },
+}
+
+function familyFor(fontFamily: string): keyof typeof STANDARD_FAMILIES {
+  if (/monospace|mono|courier|code|consol|menlo|monaco/i.test(fontFamily)) return "mono"
+  if (/(^|[\s,"])serif/i.test(fontFamily)) return "serif"
+  return "sans"
+}
+
+// Standard fonts come in two weights; semibold and heavier use the bold face
+const fontKey = (run: LaidOutRun): FontKey => {
+  const bold = run.weight >= 600
+  return bold && run.italic ? "boldItalic" : bold ? "bold" : run.italic ? "italic" : "regular"
+}
+
+function parseHexColor(color: string) {
+  const hex = color.trim().replace("#", "")
+  const full = hex.length === 3 ? hex.replace(/./g, (c) => c + c) : hex
+  if (!/^[0-9a-f]{6}$/i.test(full)) return null
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16) / 255)
+  return rgb(r, g, b)
+}
+
+// Builds a PDF from painted card backgrounds plus vector text taken from the same layout
+export class PdfExporter {
+  private readonly doc: PDFDocument
+  private readonly fonts = new Map<StandardFonts, PDFFont>()
+
+  private constructor(doc: PDFDocument) {
+    this.doc = doc
+  }
+
+  static async create(): Promise<PdfExporter> {
+    const doc = await PDFDocument.create()
+    doc.setCreator("Snap Editor")
+    const exporter = new PdfExporter(doc)
+    // Standard fonts embed synchronously in pdf-lib; load all up front so canDrawText can stay sync
+    for (const family of Object.values(STANDARD_FAMILIES)) {
+      for (const name of Object.values(family)) {
+        exporter.fonts.set(name, doc.embedStandardFont(name))
+      }
+    }
+    return exporter
+  }
+
+  private fontFor(run: LaidOutRun, fontFamily: string): PDFFont {
+    return this.fonts.get(STANDARD_FAMILIES[familyFor(fontFamily)][fontKey(run)]) as PDFFont
+  }
+
+  // A run can be vector text when the standard font encodes every character and the color is plain hex.
+  // Right-to-left runs stay in the bitmap: PDF text shows glyphs in stored order with no bidi or shaping.
+  canDrawText(run: LaidOutRun, fontFamily: string): boolean {
+    if (!parseHexColor(run.color) || run.direction === "rtl") return false
+    try {
+      this.fontFor(run, fontFamily).encodeText(run.text)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async addPage(layout: CardLayout, backgroundPng: Uint8Array, isVector: (run: LaidOutRun) => boolean) {
+    // One PDF point per layout pixel keeps the page the same aspect and size as the preset
+    const page = this.doc.addPage([layout.width, layout.height])
+    const background = await this.doc.embedPng(backgroundPng)
+    page.drawImage(background, { x: 0, y: 0, width: layout.width, height: layout.height })
+
+    for (const line of [...layout.lines, ...(layout.footer?.lines ?? [])]) {
+      for (const run of line.runs) {
+        if (!run.text.trim() || !isVector(run)) continue
+        const font = this.fontFor(run, run.family)
+        const size = run.size
+        // Squeeze or stretch the standard font so each run spans exactly the width measured by the layout
+        const naturalWidth = font.widthOfTextAtSize(run.text, size)
+        const squeeze = naturalWidth > 0 ? (run.width / naturalWidth) * 100 : 100
+        page.pushOperators(pushGraphicsState(), setCharacterSqueeze(squeeze))
+        page.drawText(run.text, {
+          x: run.x,
+          y: layout.height - run.baseline,
+          size,
+          font,
+          color: parseHexColor(run.color) ?? rgb(0, 0, 0),
+        })
+        page.pushOperators(popGraphicsState())
+      }
+    }
+  }
+
+  async toDataUrl(): Promise<string> {
+    return this.doc.saveAsBase64({ dataUri: true })
+  }
+}
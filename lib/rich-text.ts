@@ -0,0 +1,121 @@
+import type { TokenType } from "./code-highlight"
+
+// Inline markup for snaps: **bold**, _italic_, `code` and ~~strike~~.
+// Parsed into styled runs that both the canvas renderer and the editor preview consume.
+
+export interface TextStyle {
+  bold?: boolean
+  italic?: boolean
+  code?: boolean
+  strike?: boolean
+}
+
+export interface TextRun extends TextStyle {
+  text: string
+  // Syntax token inside a fenced code block; colored from the theme's syntax palette
+  token?: TokenType
+}
+
+type Marker = "**" | "~~" | "_" | "`"
+
+const MARKER_STYLE: Record<Marker, keyof TextStyle> = {
+  "**": "bold",
+  "~~": "strike",
+  _: "italic",
+  "`": "code",
+}
+
+const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}]/u.test(ch)
+
+function markerAt(line: string, i: number): Marker | null {
+  if (line.startsWith("**", i)) return "**"
+  if (line.startsWith("~~", i)) return "~~"
+  if (line[i] === "`") return "`"
+  // Underscores inside words (snake_case) are literal
+  if (line[i] === "_" && !(isWordChar(line[i - 1]) && isWordChar(line[i + 1]))) return "_"
+  return null
+}
+
+// Find a closing marker for an opening one, so unmatched markers stay literal text
+function hasClosing(line: string, from: number, marker: Marker): boolean {
+  let i = line.indexOf(marker, from)
+  while (i !== -1) {
+    if (i > from && markerAt(line, i) === marker) return true
+    i = line.indexOf(marker, i + 1)
+  }
+  return false
+}
+
+export function parseInlineMarkup(line: string): TextRun[] {
+  const runs: TextRun[] = []
+  const style: TextStyle = {}
+  let buffer = ""
+
+  const flush = () => {
+    if (!buffer) return
+    const run: TextRun = { text: buffer }
+    if (style.bold) run.bold = true
+    if (style.italic) run.italic = true
+    if (style.code) run.code = true
+    if (style.strike) run.strike = true
+    runs.push(run)
+    buffer = ""
+  }
+
+  let i = 0
+  while (i < line.length) {
+    // Code spans are literal: only a closing backtick ends them
+    if (style.code) {
+      if (line[i] === "`") {
+        flush()
+        style.code = false
+        i += 1
+      } else {
+        buffer += line[i]
+        i += 1
+      }
+      continue
+    }
+
+    const marker = markerAt(line, i)
+    if (marker) {
+      const key = MARKER_STYLE[marker]
+      if (style[key]) {
+        flush()
+        style[key] = false
+        i += marker.length
+        continue
+      }
+      if (hasClosing(line, i + marker.length, marker)) {
+        flush()
+        style[key] = true
+        i += marker.length
+        continue
+      }
+    }
+    buffer += line[i]
+    i += 1
+  }
+  flush()
+  return runs
+}
+
+// Plain text of a snap with all inline markers removed (titles, alt text, search)
+export function stripInlineMarkup(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => parseInlineMarkup(line).map((r) => r.text).join(""))
+    .join("\n")
+}
+
+// Weight a run is drawn at: bold markup is 700, or 900 when the base weight is already bold
+export function runWeight(style: TextStyle, weight = 400): number {
+  return style.bold ? (weight >= 700 ? 900 : 700) : weight
+}
+
+// Build a canvas font string for a run on top of the base size, family and weight
+export function runFont(style: TextStyle, fontSize: number, fontFamily: string, weight = 400): string {
+  const resolved = runWeight(style, weight)
+  const weightPart = resolved === 400 ? "" : resolved === 700 ? "bold " : `${resolved} `
+  return `${style.italic ? "italic " : ""}${weightPart}${fontSize}px ${fontFamily}`
+}
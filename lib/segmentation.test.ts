@@ -0,0 +1,144 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import { ImageGenerator, type CardLayout, type ImageOptions } from "./image-generator"
+import { splitGraphemes, splitLineBreakUnits, splitWordSegments } from "./segmentation"
+import { createServerCanvas } from "./server-canvas"
+
+// Strings that code-point wrapping used to mangle
+const FAMILY = "👨‍👩‍👧‍👦"
+const FLAGS = "🇯🇵🇫🇷🇧🇷🇺🇸"
+const SKIN_TONES = "👋🏽👍🏿🙌🏻"
+const COMBINING = "éäñô"
+const TAG_FLAG = "🏴󠁧󠁢󠁳󠁣󠁴󠁿"
+
+const NARROW_CARD: Partial<ImageOptions> = {
+  width: 260,
+  height: 4000,
+  fontSize: 32,
+  autoFit: false,
+  strict: false,
+  chrome: "none",
+  fontFamily: '"JetBrains Mono", monospace',
+  textAlign: "left",
+}
+
+const lineTexts = (layout: CardLayout) =>
+  layout.lines.map((line) => line.runs.map((run) => run.text).join("")).filter((line) => line.trim() !== "")
+
+describe("splitGraphemes", () => {
+  it.each([
+    ["ZWJ family", FAMILY.repeat(3), [FAMILY, FAMILY, FAMILY]],
+    ["flags", FLAGS, ["🇯🇵", "🇫🇷", "🇧🇷", "🇺🇸"]],
+    ["skin-tone modifiers", SKIN_TONES, ["👋🏽", "👍🏿", "🙌🏻"]],
+    ["combining marks", COMBINING, ["é", "ä", "ñ", "ô"]],
+    ["tag sequence", `${TAG_FLAG}x`, [TAG_FLAG, "x"]],
+  ])("keeps %s together", (_, text, clusters) => {
+    expect(splitGraphemes(text)).toEqual(clusters)
+  })
+})
+
+describe("splitWordSegments", () => {
+  it("splits a URL at its punctuation", () => {
+    const segments = splitWordSegments("https://example.com/a-long/path")
+    expect(segments.join("")).toBe("https://example.com/a-long/path")
+    expect(segments).toContain("/")
+    expect(segments).toContain("-")
+  })
+
+  it("never starts a segment with a combining mark or modifier", () => {
+    for (const text of [`abc${COMBINING}def`, `go${SKIN_TONES}now`, `x${FAMILY}y`]) {
+      const segments = splitWordSegments(text)
+      expect(segments.join("")).toBe(text)
+      for (const segment of segments) expect(segment).not.toMatch(/^[\p{M}‍\u{1f3fb}-\u{1f3ff}]/u)
+    }
+  })
+})
+
+describe("splitLineBreakUnits", () => {
+  it("leaves Latin words whole", () => {
+    expect(splitLineBreakUnits("unbreakable")).toEqual(["unbreakable"])
+  })
+
+  it("breaks between ideographs and kana", () => {
+    expect(splitLineBreakUnits("日本語")).toEqual(["日", "本", "語"])
+  })
+
+  it("keeps closing punctuation, small kana and the prolonged sound mark off the line start", () => {
+    expect(splitLineBreakUnits("です。")).toEqual(["で", "す。"])
+    expect(splitLineBreakUnits("ちょっと")).toEqual(["ちょっ", "と"])
+    expect(splitLineBreakUnits("コーヒー、")).toEqual(["コー", "ヒー、"])
+  })
+
+  it("keeps opening brackets off the line end", () => {
+    expect(splitLineBreakUnits("彼は「はい」と")).toEqual(["彼", "は", "「は", "い」", "と"])
+  })
+})
+
+describe("wrapping tricky strings", () => {
+  let generator: ImageGenerator
+
+  beforeAll(async () => {
+    generator = new ImageGenerator(await createServerCanvas())
+  })
+
+  const wrap = (text: string, overrides: Partial<ImageOptions> = {}) => {
+    const layout = generator.layout(text, { ...NARROW_CARD, ...overrides })
+    // Every glyph stays inside the card
+    for (const run of layout.lines.flatMap((line) => line.runs)) {
+      expect(run.x + run.width).toBeLessThanOrEqual(layout.card.x + layout.card.width + 0.5)
+    }
+    return lineTexts(layout)
+  }
+
+  // Each wrapped line must be made of whole clusters of the original text
+  const expectWholeClusters = (text: string, lines: string[]) => {
+    const clusters = new Set(splitGraphemes(text))
+    for (const line of lines) {
+      for (const grapheme of splitGraphemes(line.replace(/ /g, ""))) expect(clusters).toContain(grapheme)
+    }
+    expect(lines.join("").replace(/ /g, "")).toBe(text.replace(/ /g, ""))
+  }
+
+  it.each([
+    ["ZWJ families", FAMILY.repeat(12)],
+    ["flags", FLAGS.repeat(6)],
+    ["skin-tone modifiers", SKIN_TONES.repeat(8)],
+    ["combining marks", COMBINING.repeat(12)],
+    ["tag sequences", TAG_FLAG.repeat(12)],
+    ["emoji inside a long word", `start${FAMILY}middle${SKIN_TONES}end${FLAGS}tail`.repeat(3)],
+  ])("never splits %s across lines", (_, text) => {
+    const lines = wrap(text)
+    expect(lines.length).toBeGreaterThan(1)
+    expectWholeClusters(text, lines)
+  })
+
+  it("breaks a long unbroken word into chunks that fit", () => {
+    const word = "Pneumonoultramicroscopicsilicovolcanoconiosis".repeat(3)
+    const lines = wrap(word)
+    expect(lines.length).toBeGreaterThan(2)
+    expect(lines.join("")).toBe(word)
+  })
+
+  it("breaks a long URL at its punctuation", () => {
+    const url = "https://example.com/some/very/long-path/that-does-not-fit/on-one-line/at-all"
+    // Wide enough for every segment, so no break falls inside one
+    const lines = wrap(url, { width: 420, fontSize: 16 })
+    expect(lines.length).toBeGreaterThan(1)
+    expect(lines.join("")).toBe(url)
+    const boundaries = new Set<number>()
+    let offset = 0
+    for (const segment of splitWordSegments(url)) boundaries.add((offset += segment.length))
+    offset = 0
+    for (const line of lines) expect(boundaries).toContain((offset += line.length))
+  })
+
+  it("applies kinsoku rules to CJK text", () => {
+    const text = "吾輩は猫である。名前はまだ無い。「どこで生れたか」とんと見当がつかぬ。何でも薄暗いじめじめした所でニャーニャー泣いていた事だけは記憶している。"
+    const lines = wrap(text)
+    expect(lines.length).toBeGreaterThan(2)
+    expect(lines.join("")).toBe(text)
+    for (const line of lines) {
+      expect(line).not.toMatch(/^[。、」ーゃゅょっ]/)
+      expect(line).not.toMatch(/「$/)
+    }
+  })
+})
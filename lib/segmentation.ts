@@ -0,0 +1,79 @@
+// Grapheme and word segmentation for wrapping. Breaking text by code points splits family and flag
+// emoji, skin-tone modifiers and combining accents across lines; these helpers never split a cluster.
+
+const graphemeSegmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl ? new Intl.Segmenter(undefined, { granularity: "grapheme" }) : null
+
+const wordSegmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl ? new Intl.Segmenter(undefined, { granularity: "word" }) : null
+
+const ZWJ = "\u200d"
+const EXTENDS_PREVIOUS = /^[\p{M}\u200d\ufe00-\ufe0f\u{1f3fb}-\u{1f3ff}\u{e0020}-\u{e007f}]$/u
+const REGIONAL_INDICATOR = /^[\u{1f1e6}-\u{1f1ff}]$/u
+
+// Approximation of extended grapheme clusters for runtimes without Intl.Segmenter:
+// combining marks, variation selectors, skin tones, tag sequences, ZWJ joins and flag pairs stay together.
+function fallbackGraphemes(text: string): string[] {
+  const clusters: string[] = []
+  let joinNext = false
+  let pendingFlag = false
+  for (const ch of text) {
+    const last = clusters.length - 1
+    if (last >= 0 && (joinNext || EXTENDS_PREVIOUS.test(ch) || (pendingFlag && REGIONAL_INDICATOR.test(ch)))) {
+      clusters[last] += ch
+      pendingFlag = false
+    } else {
+      clusters.push(ch)
+      pendingFlag = REGIONAL_INDICATOR.test(ch)
+    }
+    joinNext = ch === ZWJ
+  }
+  return clusters
+}
+
+export function splitGraphemes(text: string): string[] {
+  if (!graphemeSegmenter) return fallbackGraphemes(text)
+  return Array.from(graphemeSegmenter.segment(text), (s) => s.segment)
+}
+
+// Word-level segments (words, punctuation, symbols). Used to break an over-long token such as a URL
+// at natural boundaries like "/" or "-" before falling back to grapheme clusters.
+export function splitWordSegments(text: string): string[] {
+  if (!wordSegmenter) return [text]
+  const segments = Array.from(wordSegmenter.segment(text), (s) => s.segment)
+  // Segment boundaries must also be grapheme boundaries; merge any segment that would split a cluster
+  const merged: string[] = []
+  for (const segment of segments) {
+    if (merged.length > 0 && EXTENDS_PREVIOUS.test(Array.from(segment)[0] ?? "")) merged[merged.length - 1] += segment
+    else merged.push(segment)
+  }
+  return merged
+}
+
+// CJK text has no spaces between words: a line may break between any two ideographs or kana,
+// subject to kinsoku shori. These characters never start a line (closing brackets, sentence
+// punctuation, small kana, prolonged sound and iteration marks)...
+const NO_LINE_START =
+  /^[)\]}\u3001\u3002\u3009\u300b\u300d\u300f\u3011\u3015\u3017\u3019\u301f\uff09\uff3d\uff5d\uff60\u00bb\u2019\u201d,.:;?!%\uff0c\uff0e\uff1a\uff1b\uff1f\uff01\uff05\u30fb\u30fc\u2026\u2025\u301c\uff5e\u309d\u309e\u30fd\u30fe\u3005\u303b\u3041\u3043\u3045\u3047\u3049\u3063\u3083\u3085\u3087\u308e\u3095\u3096\u30a1\u30a3\u30a5\u30a7\u30a9\u30c3\u30e3\u30e5\u30e7\u30ee\u30f5\u30f6\u31f0-\u31ff]/u
+// ...and these never end one (opening brackets and quotes)
+const NO_LINE_END =
+  /^[([{\u3008\u300a\u300c\u300e\u3010\u3014\u3016\u3018\u301d\uff08\uff3b\uff5b\uff5f\u00ab\u2018\u201c]$/u
+const CJK = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\u30fc\uff00-\uffef]/u
+
+// Split a space-free word into the smallest pieces a line may break between. Latin text stays whole;
+// a break is allowed next to CJK characters unless it would strand opening or closing punctuation.
+export function splitLineBreakUnits(text: string): string[] {
+  const units: string[] = []
+  let previous = ""
+  for (const grapheme of splitGraphemes(text)) {
+    const canBreak =
+      previous !== "" &&
+      (CJK.test(previous) || CJK.test(grapheme)) &&
+      !NO_LINE_START.test(grapheme) &&
+      !NO_LINE_END.test(previous)
+    if (canBreak || units.length === 0) units.push(grapheme)
+    else units[units.length - 1] += grapheme
+    previous = grapheme
+  }
+  return units
+}
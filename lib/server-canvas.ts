@@ -0,0 +1,73 @@
+import path from "path"
+import { existsSync, readdirSync } from "fs"
+import { readFile } from "fs/promises"
+import type { CanvasImage, CanvasLike } from "./canvas"
+import { FONT_VARIABLES } from "./fonts"
+
+// Server renders must use the faces the browser gets from next/font, or line breaks differ between the
+// editor and /api/render. They come from npm packages: geist for Geist and Geist Mono, @fontsource for
+// the Google fonts (latin subset, every weight and style). RENDER_FONT_DIR adds more .ttf/.otf/.woff2 files.
+const NODE_MODULES = path.join(process.cwd(), "node_modules")
+const FONT_DIRS = [
+  path.join(NODE_MODULES, "geist", "dist", "fonts", "geist-sans"),
+  path.join(NODE_MODULES, "geist", "dist", "fonts", "geist-mono"),
+]
+const EXTRA_FONT_DIR = process.env.RENDER_FONT_DIR
+
+// A family the editor offers could not be registered, so server output would not match the browser
+export class MissingFontsError extends Error {
+  constructor(readonly families: string[]) {
+    super(`Server render fonts are missing: ${families.join(", ")}; run pnpm install`)
+    this.name = "MissingFontsError"
+  }
+}
+
+let fontsLoaded: Promise<void> | null = null
+
+async function loadFonts(): Promise<void> {
+  const { GlobalFonts } = await import("@napi-rs/canvas")
+  for (const dir of FONT_DIRS) {
+    if (existsSync(dir)) GlobalFonts.loadFontsFromDir(dir)
+  }
+  for (const family of Object.values(FONT_VARIABLES)) {
+    // @fontsource/<family-name>; the files' own names vary by weight ("Fira Code Light"), so register them under the CSS family
+    const dir = path.join(NODE_MODULES, "@fontsource", family.toLowerCase().replace(/ /g, "-"), "files")
+    if (!existsSync(dir)) continue
+    for (const file of readdirSync(dir)) {
+      if (/-latin-\d+-(normal|italic)\.woff2$/.test(file)) GlobalFonts.registerFromPath(path.join(dir, file), family)
+    }
+  }
+  if (EXTRA_FONT_DIR && existsSync(EXTRA_FONT_DIR)) GlobalFonts.loadFontsFromDir(EXTRA_FONT_DIR)
+  const missing = Object.values(FONT_VARIABLES).filter((family) => !GlobalFonts.has(family))
+  if (missing.length > 0) throw new MissingFontsError(missing)
+}
+
+// Create a Node-side canvas for ImageGenerator. Imported lazily so the native module
+// is only loaded by server routes, never bundled into the client.
+export async function createServerCanvas(width = 1, height = 1): Promise<CanvasLike> {
+  const { createCanvas } = await import("@napi-rs/canvas")
+  // Retried on the next render when it fails, e.g. after the missing packages are installed
+  fontsLoaded ??= loadFonts().catch((e) => {
+    fontsLoaded = null
+    throw e
+  })
+  await fontsLoaded
+  return createCanvas(width, height) as unknown as CanvasLike
+}
+
+const PUBLIC_DIR = path.join(process.cwd(), "public")
+
+// Server image loader for avatars, photos and template logos. Data URLs are decoded; a root-relative
+// path (as in the built-in templates) is read from public/ and nowhere else. Anything else is refused:
+// @napi-rs/canvas would otherwise read arbitrary local files or fetch URLs on behalf of the request.
+export async function loadServerImage(src: string): Promise<CanvasImage> {
+  const { loadImage } = await import("@napi-rs/canvas")
+  if (src.startsWith("data:image/")) return (await loadImage(src)) as unknown as CanvasImage
+  if (src.startsWith("/") && !src.startsWith("//")) {
+    const file = path.resolve(PUBLIC_DIR, "." + decodeURIComponent(src))
+    if (file.startsWith(PUBLIC_DIR + path.sep) && existsSync(file)) {
+      return (await loadImage(await readFile(file))) as unknown as CanvasImage
+    }
+  }
+  throw new Error("Only data:image URLs and files under public/ can be loaded on the server")
+}
@@ -0,0 +1,95 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+// The parts of localStorage snap-db touches
+class MemoryStorage {
+  private readonly items = new Map<string, string>()
+  getItem = (key: string) => this.items.get(key) ?? null
+  setItem = (key: string, value: string) => void this.items.set(key, value)
+  removeItem = (key: string) => void this.items.delete(key)
+}
+
+// A database as version 2 left it: snaps with a tags index, and the outbox
+function createVersion2(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open("snap-editor", 2)
+    request.onupgradeneeded = () => {
+      const snaps = request.result.createObjectStore("snaps", { keyPath: "id" })
+      snaps.createIndex("timestamp", "timestamp")
+      snaps.createIndex("tags", "tags", { multiEntry: true })
+      snaps.put({ id: "a", text: "Kept", timestamp: 1, tags: ["favorite"] })
+      const outbox = request.result.createObjectStore("outbox", { keyPath: "id" })
+      outbox.put({ id: "a", text: "Kept", timestamp: 1, tags: ["favorite"] })
+    }
+    request.onsuccess = () => {
+      request.result.close()
+      resolve()
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+describe("openSnapDb", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", new IDBFactory())
+    vi.stubGlobal("localStorage", new MemoryStorage())
+    // openSnapDb caches the open database per module instance
+    vi.resetModules()
+  })
+
+  it("keeps the snaps and their indexes when upgrading to version 3", async () => {
+    await createVersion2()
+    const { openSnapDb } = await import("./snap-db")
+    const db = await openSnapDb()
+    expect(db.version).toBe(3)
+    const store = db.transaction("snaps").objectStore("snaps")
+    expect([...store.indexNames].sort()).toEqual(["tags", "timestamp"])
+    const snaps = await new Promise((resolve) => (store.getAll().onsuccess = (e) => resolve((e.target as IDBRequest).result)))
+    expect(snaps).toEqual([{ id: "a", text: "Kept", timestamp: 1, tags: ["favorite"] }])
+    const tagged = await new Promise((resolve) => (store.index("tags").getAll("favorite").onsuccess = (e) => resolve((e.target as IDBRequest).result)))
+    expect(tagged).toEqual(snaps)
+    db.close()
+  })
+
+  it("empties the outbox when server history is off", async () => {
+    await createVersion2()
+    const { openSnapDb } = await import("./snap-db")
+    const db = await openSnapDb()
+    const outbox = db.transaction("outbox").objectStore("outbox")
+    expect(await new Promise((resolve) => (outbox.count().onsuccess = (e) => resolve((e.target as IDBRequest).result)))).toBe(0)
+    db.close()
+  })
+
+  it("raises a history limit saved under the old default of 100", async () => {
+    localStorage.setItem("snap-editor-settings", JSON.stringify({ autoSave: true, maxHistory: 100, theme: "auto" }))
+    await createVersion2()
+    const { openSnapDb } = await import("./snap-db")
+    ;(await openSnapDb()).close()
+    expect(JSON.parse(localStorage.getItem("snap-editor-settings")!)).toEqual({ autoSave: true, maxHistory: 1000, theme: "auto" })
+  })
+
+  it("leaves a limit the user chose alone", async () => {
+    localStorage.setItem("snap-editor-settings", JSON.stringify({ maxHistory: 250 }))
+    await createVersion2()
+    const { openSnapDb } = await import("./snap-db")
+    ;(await openSnapDb()).close()
+    expect(JSON.parse(localStorage.getItem("snap-editor-settings")!)).toEqual({ maxHistory: 250 })
+  })
+
+  it("closes its connection when another tab upgrades the database", async () => {
+    const { openSnapDb } = await import("./snap-db")
+    await openSnapDb()
+    // A newer version elsewhere would otherwise be blocked by this connection
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open("snap-editor", 4)
+      request.onsuccess = () => {
+        request.result.close()
+        resolve()
+      }
+      request.onblocked = () => reject(new Error("blocked"))
+    })
+    // The closed connection is not handed out again; this page now runs an outdated version
+    await expect(openSnapDb()).rejects.toThrow()
+  })
+})
@@ -0,0 +1,133 @@
+import type { SavedSnap } from "./storage"
+
+// IndexedDB database behind SnapStorage. Snaps live in one object store keyed by id, with indexes on
+// timestamp (history order, retention) and tags (multi-entry, one index key per tag). The first open
+// moves the old localStorage history in, inside the upgrade transaction, so it migrates completely or not at all.
+// Version 2 adds the sync outbox: the latest unsent version of each changed snap, or its tombstone.
+// Version 3 raises the history limit saved under the old default.
+// The outbox only fills while server history is enabled; without it nothing would ever send it.
+
+export const SERVER_HISTORY_ENABLED = process.env.NEXT_PUBLIC_ENABLE_SERVER_HISTORY === "true"
+
+const DB_NAME = "snap-editor"
+const DB_VERSION = 3
+export const SNAP_STORE = "snaps"
+export const OUTBOX_STORE = "outbox"
+
+// Where SnapStorage kept the whole history as one JSON blob before IndexedDB
+const LEGACY_STORAGE_KEY = "snap-editor-history"
+// SnapStorage's AppSettings; maxHistory defaulted to 100 when the history lived in localStorage
+const SETTINGS_KEY = "snap-editor-settings"
+const LEGACY_MAX_HISTORY = 100
+const MAX_HISTORY = 1000
+
+function readLegacySnaps(): SavedSnap[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || "[]")
+    if (!Array.isArray(saved)) return []
+    // A malformed entry would make put() abort the whole migration
+    return saved.filter(
+      (snap): snap is SavedSnap =>
+        typeof snap?.id === "string" && typeof snap.text === "string" && typeof snap.timestamp === "number",
+    )
+  } catch {
+    return []
+  }
+}
+
+// Settings are saved whole, so a limit of 100 is almost always the old default rather than a choice
+function raiseLegacyHistoryLimit() {
+  try {
+    const settings = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null")
+    if (settings?.maxHistory !== LEGACY_MAX_HISTORY) return
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, maxHistory: MAX_HISTORY }))
+  } catch {}
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+export function openSnapDb(): Promise<IDBDatabase> {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    let migrated = false
+    let upgraded = false
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => {
+      if (event.oldVersion < 1) {
+        const store = request.result.createObjectStore(SNAP_STORE, { keyPath: "id" })
+        store.createIndex("timestamp", "timestamp")
+        store.createIndex("tags", "tags", { multiEntry: true })
+        for (const snap of readLegacySnaps()) store.put({ ...snap, tags: snap.tags ?? [] })
+        migrated = true
+      }
+      if (event.oldVersion < 2) {
+        const outbox = request.result.createObjectStore(OUTBOX_STORE, { keyPath: "id" })
+        // Snaps saved before sync have never reached the server in full; queue them all once
+        if (SERVER_HISTORY_ENABLED) {
+          const existing = request.transaction!.objectStore(SNAP_STORE).getAll()
+          existing.onsuccess = () => {
+            for (const snap of existing.result) outbox.put(snap)
+          }
+        }
+      }
+      if (event.oldVersion < 3) {
+        // Version 2 queued every change, and the whole history, even with server history off
+        if (!SERVER_HISTORY_ENABLED) request.transaction!.objectStore(OUTBOX_STORE).clear()
+        upgraded = true
+      }
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      // Another tab is upgrading the database; let it, and reopen on the next call
+      db.onversionchange = () => {
+        db.close()
+        database = null
+      }
+      // The upgrade transaction has committed, so the old copy is no longer needed
+      if (migrated) {
+        try {
+          localStorage.removeItem(LEGACY_STORAGE_KEY)
+        } catch {}
+      }
+      if (upgraded) raiseLegacyHistoryLimit()
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => reject(new Error("Snap history is being upgraded in another tab; close it and reload"))
+  }).catch((error) => {
+    // Let the next call try again instead of caching the failure
+    database = null
+    throw error
+  })
+  return database
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Resolves once the transaction commits; rejects with the error (e.g. QuotaExceededError) that aborted it
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"))
+  })
+}
+
+// Walk a cursor until `visit` returns false or the range is exhausted
+export function walkCursor(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visit: (cursor: IDBCursorWithValue) => boolean,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (cursor && visit(cursor)) cursor.continue()
+      else resolve()
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
@@ -0,0 +1,185 @@
+import { createCanvas, loadImage } from "@napi-rs/canvas"
+import { crc32 } from "zlib"
+import { describe, expect, it } from "vitest"
+import { bytesToDataUrl, dataUrlToBytes } from "./canvas"
+import { SNAP_LIMITS, readSnapMetadata, withSnapMetadata, type SnapMetadata } from "./snap-metadata"
+
+const METADATA: SnapMetadata = {
+  version: 1,
+  text: "Ship it 🚀\n«quotes» & <angle brackets>",
+  title: "Release notes",
+  tags: ["favorite", "work"],
+  settings: { textAlign: "center", chrome: "macos", chromeTitle: "notes.md", fontWeight: 600 },
+}
+
+// An opaque card with some detail, so the decoded pixels are worth comparing
+function render(type: "image/png" | "image/jpeg" | "image/webp"): Uint8Array {
+  const canvas = createCanvas(37, 23)
+  const ctx = canvas.getContext("2d")
+  ctx.fillStyle = "#36a"
+  ctx.fillRect(0, 0, 37, 23)
+  ctx.fillStyle = "#fc3"
+  ctx.fillRect(5, 4, 20, 12)
+  return dataUrlToBytes(canvas.toDataURL(type, 0.9))
+}
+
+const embed = (bytes: Uint8Array, type: string, metadata = METADATA) =>
+  dataUrlToBytes(withSnapMetadata(bytesToDataUrl(bytes, type), metadata))
+
+async function pixels(bytes: Uint8Array) {
+  const image = await loadImage(Buffer.from(bytes))
+  const ctx = createCanvas(image.width, image.height).getContext("2d")
+  ctx.drawImage(image, 0, 0)
+  return { width: image.width, height: image.height, data: ctx.getImageData(0, 0, image.width, image.height).data }
+}
+
+// PNG chunks or RIFF chunks, in file order
+function pngChunks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: Array<{ type: string; data: Uint8Array; crc: number; start: number; end: number }> = []
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset)
+    const type = Buffer.from(bytes.subarray(offset + 4, offset + 8)).toString("latin1")
+    const end = offset + 12 + length
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length), crc: view.getUint32(end - 4), start: offset, end })
+    offset = end
+  }
+  return chunks
+}
+
+function riffChunks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: Array<{ fourcc: string; data: Uint8Array }> = []
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const length = view.getUint32(offset + 4, true)
+    chunks.push({ fourcc: Buffer.from(bytes.subarray(offset, offset + 4)).toString("latin1"), data: bytes.subarray(offset + 8, offset + 8 + length) })
+    offset += 8 + length + (length % 2)
+  }
+  return chunks
+}
+
+// A WebP in the simple layout: the RIFF header and a single image chunk
+function simpleWebp(fourcc: string, data: Uint8Array): Uint8Array {
+  const padded = data.length % 2 ? 1 : 0
+  const file = new Uint8Array(20 + data.length + padded)
+  const view = new DataView(file.buffer)
+  file.set(Buffer.from("RIFF"), 0)
+  view.setUint32(4, file.length - 8, true)
+  file.set(Buffer.from(`WEBP${fourcc}`), 8)
+  view.setUint32(16, data.length, true)
+  file.set(data, 20)
+  return file
+}
+
+// The VP8X canvas size: 24-bit little-endian width and height, each stored minus one
+const vp8xSize = (data: Uint8Array) => ({
+  width: (data[4] | (data[5] << 8) | (data[6] << 16)) + 1,
+  height: (data[7] | (data[8] << 8) | (data[9] << 16)) + 1,
+})
+
+describe("snap metadata", () => {
+  describe("PNG", () => {
+    it("round-trips through an iTXt chunk with a valid CRC", async () => {
+      const original = render("image/png")
+      const embedded = embed(original, "image/png")
+      expect(readSnapMetadata(embedded)).toEqual(METADATA)
+
+      const chunks = pngChunks(embedded)
+      for (const chunk of chunks) {
+        expect(chunk.crc).toBe(crc32(Buffer.concat([Buffer.from(chunk.type, "latin1"), chunk.data])))
+      }
+      expect(chunks.map((chunk) => chunk.type).slice(-2)).toEqual(["iTXt", "IEND"])
+      // Without the new chunk, the file is byte for byte the original
+      const itxt = chunks.at(-2)!
+      expect(Buffer.concat([embedded.subarray(0, itxt.start), embedded.subarray(itxt.end)])).toEqual(Buffer.from(original))
+      expect(await pixels(embedded)).toEqual(await pixels(original))
+    })
+
+    it("reads nothing from a PNG without metadata", () => {
+      expect(readSnapMetadata(render("image/png"))).toBeNull()
+    })
+  })
+
+  describe("JPEG", () => {
+    it("round-trips through comment segments and keeps the image data", async () => {
+      const original = render("image/jpeg")
+      const embedded = embed(original, "image/jpeg")
+      expect(readSnapMetadata(embedded)).toEqual(METADATA)
+      // The comments go in after the APPn headers; everything around them is the original file
+      let headers = 2
+      while (original[headers + 1] >= 0xe0 && original[headers + 1] <= 0xef) headers += 2 + ((original[headers + 2] << 8) | original[headers + 3])
+      expect(Buffer.from(embedded.subarray(0, headers))).toEqual(Buffer.from(original.subarray(0, headers)))
+      expect(Buffer.from(embedded.subarray(embedded.length - (original.length - headers)))).toEqual(Buffer.from(original.subarray(headers)))
+      expect(embedded[headers + 1]).toBe(0xfe)
+      expect(await pixels(embedded)).toEqual(await pixels(original))
+    })
+
+    it("splits a payload over 64 KB across segments", async () => {
+      // JSON escapes every control character to six bytes, which makes this the largest payload the
+      // schema accepts: about 75 KB
+      const large: SnapMetadata = {
+        version: 1,
+        text: "\u0001".repeat(SNAP_LIMITS.text),
+        tags: Array.from({ length: SNAP_LIMITS.tags }, (_, i) => `${i}`.padEnd(SNAP_LIMITS.tag, "\u0002")),
+      }
+      expect(JSON.stringify(large).length).toBeGreaterThan(0xffff)
+      const original = render("image/jpeg")
+      const embedded = embed(original, "image/jpeg", large)
+
+      let comments = 0
+      for (let offset = 2; embedded[offset + 1] !== 0xda; offset += 2 + ((embedded[offset + 2] << 8) | embedded[offset + 3])) {
+        if (embedded[offset + 1] === 0xfe) comments++
+      }
+      expect(comments).toBe(2)
+      expect(readSnapMetadata(embedded)).toEqual(large)
+      expect(await pixels(embedded)).toEqual(await pixels(original))
+    })
+  })
+
+  describe("WebP", () => {
+    it("adds an XMP chunk to an extended (VP8X) file", async () => {
+      const original = render("image/webp")
+      expect(riffChunks(original)[0].fourcc).toBe("VP8X")
+      const embedded = embed(original, "image/webp")
+      expect(readSnapMetadata(embedded)).toEqual(METADATA)
+
+      const chunks = riffChunks(embedded)
+      expect(chunks.map((chunk) => chunk.fourcc)).toEqual([...riffChunks(original).map((chunk) => chunk.fourcc), "XMP "])
+      expect(chunks[0].data[0] & 0x04).toBe(0x04)
+      expect(new DataView(embedded.buffer).getUint32(4, true)).toBe(embedded.length - 8)
+      expect(await pixels(embedded)).toEqual(await pixels(original))
+    })
+
+    it("converts a simple lossy (VP8) file to the extended layout", async () => {
+      const vp8 = riffChunks(render("image/webp")).find((chunk) => chunk.fourcc === "VP8 ")!
+      const original = simpleWebp("VP8 ", vp8.data)
+      const embedded = embed(original, "image/webp")
+      expect(readSnapMetadata(embedded)).toEqual(METADATA)
+
+      const chunks = riffChunks(embedded)
+      expect(chunks.map((chunk) => chunk.fourcc)).toEqual(["VP8X", "VP8 ", "XMP "])
+      expect(vp8xSize(chunks[0].data)).toEqual({ width: 37, height: 23 })
+      expect(Buffer.from(chunks[1].data)).toEqual(Buffer.from(vp8.data))
+      expect(new DataView(embedded.buffer).getUint32(4, true)).toBe(embedded.length - 8)
+      expect(await pixels(embedded)).toEqual(await pixels(original))
+    })
+
+    it("converts a simple lossless (VP8L) file to the extended layout", async () => {
+      // A 1×1 lossless image; the canvas encoder here only writes lossy files
+      const original = new Uint8Array(Buffer.from("UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA==", "base64"))
+      const embedded = embed(original, "image/webp")
+      expect(readSnapMetadata(embedded)).toEqual(METADATA)
+
+      const chunks = riffChunks(embedded)
+      expect(chunks.map((chunk) => chunk.fourcc)).toEqual(["VP8X", "VP8L", "XMP "])
+      expect(vp8xSize(chunks[0].data)).toEqual({ width: 1, height: 1 })
+      expect(Buffer.from(chunks[1].data)).toEqual(Buffer.from(riffChunks(original)[0].data))
+      expect(await pixels(embedded)).toEqual(await pixels(original))
+    })
+  })
+
+  it("ignores metadata that does not validate", () => {
+    const embedded = embed(render("image/png"), "image/png", { version: 1, text: "" })
+    expect(readSnapMetadata(embedded)).toBeNull()
+  })
+})
@@ -0,0 +1,274 @@
+import { z } from "zod"
+import { CHROME_STYLES, type ChromeId } from "./chrome"
+import { bytesToDataUrl, dataUrlToBytes } from "./canvas"
+import type { ImageOptions } from "./image-generator"
+
+// The source snap, embedded in exported images so a posted card can be reopened and edited. Each format
+// keeps it where its own tools expect text: a PNG iTXt chunk, JPEG comment (COM) segments and a WebP XMP
+// chunk. The payload is JSON validated with snapMetadataSchema on the way back in, since a dropped file
+// can come from anywhere.
+
+const METADATA_KEY = "snap-editor"
+
+const chromeIds = Object.keys(CHROME_STYLES) as [ChromeId, ...ChromeId[]]
+
+// Render settings worth restoring in the editor. Images (photos, avatars, logos) are left out: they would
+// bloat every export and JPEG comments top out at 64 KB each.
+export const snapRenderSettingsSchema = z
+  .object({
+    fontFamily: z.string().max(300),
+    textAlign: z.enum(["left", "center", "right", "justify"]),
+    lineHeight: z.number(),
+    letterSpacing: z.number(),
+    paragraphSpacing: z.number(),
+    fontWeight: z.number(),
+    backgroundColor: z.string().max(64),
+    cardColor: z.string().max(64),
+    textColor: z.string().max(64),
+    cardStyle: z.enum(["solid", "glass"]),
+    chrome: z.enum(chromeIds),
+    chromeTitle: z.string().max(100),
+    // Layout template id
+    template: z.string().max(64),
+  })
+  .partial()
+
+// Size limits on a snap, the same wherever one is accepted: dropped images, imports, the history API and sync
+export const SNAP_LIMITS = { text: 10000, title: 200, tag: 50, tags: 50 } as const
+
+export const snapContentSchema = z.object({
+  text: z.string().min(1).max(SNAP_LIMITS.text),
+  title: z.string().max(SNAP_LIMITS.title).optional(),
+  tags: z.array(z.string().max(SNAP_LIMITS.tag)).max(SNAP_LIMITS.tags).optional(),
+  settings: snapRenderSettingsSchema.optional(),
+})
+
+export const snapMetadataSchema = snapContentSchema.extend({ version: z.literal(1) })
+
+export type SnapMetadata = z.infer<typeof snapMetadataSchema>
+export type SnapRenderSettings = z.infer<typeof snapRenderSettingsSchema>
+
+// Metadata for a snap rendered with `options`
+export function snapMetadataFor(
+  text: string,
+  options: Partial<ImageOptions> = {},
+  title?: string,
+  tags?: string[],
+): SnapMetadata {
+  const { template, ...rest } = options
+  const settings = snapRenderSettingsSchema.safeParse({ ...rest, template: template?.id })
+  return {
+    version: 1,
+    text,
+    ...(title ? { title } : {}),
+    ...(tags?.length ? { tags } : {}),
+    ...(settings.success ? { settings: settings.data } : {}),
+  }
+}
+
+// Add metadata to a PNG, JPEG or WebP data URL; other formats are returned unchanged
+export function withSnapMetadata(dataUrl: string, metadata: SnapMetadata): string {
+  const mimeType = dataUrl.slice(5, dataUrl.indexOf(";"))
+  const bytes = dataUrlToBytes(dataUrl)
+  const payload = new TextEncoder().encode(JSON.stringify(metadata))
+  if (mimeType === "image/png") return bytesToDataUrl(embedPng(bytes, payload), mimeType)
+  if (mimeType === "image/jpeg") return bytesToDataUrl(embedJpeg(bytes, payload), mimeType)
+  if (mimeType === "image/webp") return bytesToDataUrl(embedWebp(bytes, payload), mimeType)
+  return dataUrl
+}
+
+// Snap embedded in an image file, or null when there is none or it does not validate
+export function readSnapMetadata(bytes: Uint8Array): SnapMetadata | null {
+  let payload: string | null = null
+  try {
+    if (startsWith(bytes, PNG_SIGNATURE)) payload = readPng(bytes)
+    else if (bytes[0] === 0xff && bytes[1] === 0xd8) payload = readJpeg(bytes)
+    else if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") payload = readWebp(bytes)
+  } catch {
+    // Truncated or malformed container
+    return null
+  }
+  if (payload === null) return null
+  try {
+    const parsed = snapMetadataSchema.safeParse(JSON.parse(payload))
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+const utf8 = new TextDecoder()
+const latin1 = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0))
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length))
+const startsWith = (bytes: Uint8Array, prefix: Uint8Array) => prefix.every((b, i) => bytes[i] === b)
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+// --- PNG: an uncompressed iTXt chunk just before IEND ---
+
+const PNG_SIGNATURE = Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  chunk.set(latin1(type), 4)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+function embedPng(bytes: Uint8Array, payload: Uint8Array): Uint8Array {
+  // Keyword, then compression flag and method (0, 0), empty language tag and translated keyword
+  const data = concat(latin1(METADATA_KEY), Uint8Array.of(0, 0, 0, 0, 0), payload)
+  const iend = bytes.length - 12
+  return concat(bytes.subarray(0, iend), pngChunk("iTXt", data), bytes.subarray(iend))
+}
+
+function readPng(bytes: Uint8Array): string | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  for (let offset = 8; offset + 8 <= bytes.length; ) {
+    const length = view.getUint32(offset)
+    const type = ascii(bytes, offset + 4, 4)
+    const data = bytes.subarray(offset + 8, offset + 8 + length)
+    if (type === "iTXt" && startsWith(data, latin1(`${METADATA_KEY}\0`))) {
+      let cursor = METADATA_KEY.length + 1
+      // Only uncompressed text is written
+      if (data[cursor] !== 0) return null
+      cursor += 2
+      cursor = data.indexOf(0, cursor) + 1 // language tag
+      cursor = data.indexOf(0, cursor) + 1 // translated keyword
+      return utf8.decode(data.subarray(cursor))
+    }
+    if (type === "IEND") break
+    offset += 12 + length
+  }
+  return null
+}
+
+// --- JPEG: comment segments after the APPn headers, split at the 64 KB segment limit ---
+
+const JPEG_PREFIX = latin1(`${METADATA_KEY}\0`)
+const JPEG_SEGMENT_MAX = 0xffff - 2 - JPEG_PREFIX.length
+
+function embedJpeg(bytes: Uint8Array, payload: Uint8Array): Uint8Array {
+  // Keep JFIF/Exif (APP0-APP15) directly after SOI, where decoders look for them
+  let offset = 2
+  while (bytes[offset] === 0xff && bytes[offset + 1] >= 0xe0 && bytes[offset + 1] <= 0xef) {
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])
+  }
+  const segments: Uint8Array[] = []
+  for (let start = 0; start < payload.length; start += JPEG_SEGMENT_MAX) {
+    const part = payload.subarray(start, start + JPEG_SEGMENT_MAX)
+    const length = 2 + JPEG_PREFIX.length + part.length
+    segments.push(Uint8Array.of(0xff, 0xfe, length >> 8, length & 0xff), JPEG_PREFIX, part)
+  }
+  return concat(bytes.subarray(0, offset), ...segments, bytes.subarray(offset))
+}
+
+function readJpeg(bytes: Uint8Array): string | null {
+  const parts: Uint8Array[] = []
+  // Segments run until start of scan; after it comes entropy-coded data
+  for (let offset = 2; offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xda; ) {
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    const data = bytes.subarray(offset + 4, offset + 2 + length)
+    if (bytes[offset + 1] === 0xfe && startsWith(data, JPEG_PREFIX)) parts.push(data.subarray(JPEG_PREFIX.length))
+    offset += 2 + length
+  }
+  return parts.length > 0 ? utf8.decode(concat(...parts)) : null
+}
+
+// --- WebP: an XMP chunk, which needs the extended (VP8X) file layout ---
+
+const XMP_FLAG = 0x04
+const ALPHA_FLAG = 0x10
+
+const escapeXml = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+const unescapeXml = (value: string) => value.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&")
+
+function xmpPacket(json: string): string {
+  return (
+    `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>` +
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">` +
+    `<rdf:Description rdf:about="" xmlns:snap="https://snap-editor.app/ns/1.0/"><snap:data>${escapeXml(json)}</snap:data></rdf:Description>` +
+    `</rdf:RDF></x:xmpmeta><?xpacket end="r"?>`
+  )
+}
+
+function riffChunk(fourcc: string, data: Uint8Array): Uint8Array {
+  const header = new Uint8Array(8)
+  header.set(latin1(fourcc))
+  new DataView(header.buffer).setUint32(4, data.length, true)
+  // Chunks are padded to an even size
+  return concat(header, data, data.length % 2 ? Uint8Array.of(0) : new Uint8Array(0))
+}
+
+function embedWebp(bytes: Uint8Array, payload: Uint8Array): Uint8Array {
+  const xmp = riffChunk("XMP ", new TextEncoder().encode(xmpPacket(utf8.decode(payload))))
+  const fourcc = ascii(bytes, 12, 4)
+  let body: Uint8Array
+  if (fourcc === "VP8X") {
+    body = bytes.slice(12)
+    body[8] |= XMP_FLAG
+  } else {
+    // Simple layout (a single VP8 or VP8L chunk): prepend a VP8X header with the canvas size
+    const data = bytes.subarray(20)
+    let width: number
+    let height: number
+    let flags = XMP_FLAG
+    if (fourcc === "VP8L") {
+      const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24)
+      width = (bits & 0x3fff) + 1
+      height = ((bits >>> 14) & 0x3fff) + 1
+      if ((bits >>> 28) & 1) flags |= ALPHA_FLAG
+    } else {
+      // VP8 frame header: 3-byte frame tag, 3-byte start code, then 14-bit width and height
+      width = (data[6] | (data[7] << 8)) & 0x3fff
+      height = (data[8] | (data[9] << 8)) & 0x3fff
+    }
+    const vp8x = new Uint8Array(10)
+    vp8x[0] = flags
+    vp8x.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, (width - 1) >> 16], 4)
+    vp8x.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, (height - 1) >> 16], 7)
+    body = concat(riffChunk("VP8X", vp8x), bytes.subarray(12))
+  }
+  const header = new Uint8Array(12)
+  header.set(latin1("RIFF"))
+  new DataView(header.buffer).setUint32(4, 4 + body.length + xmp.length, true)
+  header.set(latin1("WEBP"), 8)
+  return concat(header, body, xmp)
+}
+
+function readWebp(bytes: Uint8Array): string | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const length = view.getUint32(offset + 4, true)
+    if (ascii(bytes, offset, 4) === "XMP ") {
+      const match = /<snap:data>([\s\S]*?)<\/snap:data>/.exec(utf8.decode(bytes.subarray(offset + 8, offset + 8 + length)))
+      if (match) return unescapeXml(match[1])
+    }
+    offset += 8 + length + (length % 2)
+  }
+  return null
+}
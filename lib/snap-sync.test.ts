@@ -0,0 +1,280 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { POST } from "@/app/api/history/sync/route"
+import { MemoryHistoryStore, type HistoryStore } from "./history-store"
+import type { SavedSnap } from "./storage"
+import type { SnapTombstone, SyncRecord } from "./snap-versions"
+
+// The parts of localStorage the storage and sync modules touch
+class MemoryStorage {
+  private readonly items = new Map<string, string>()
+  getItem = (key: string) => this.items.get(key) ?? null
+  setItem = (key: string, value: string) => void this.items.set(key, value)
+  removeItem = (key: string) => void this.items.delete(key)
+}
+
+// Recent enough that the server keeps its tombstones (see TOMBSTONE_TTL)
+const now = Date.now()
+
+const snap = (id: string, fields: Partial<SavedSnap> = {}): SavedSnap => ({
+  id,
+  text: `Snap ${id}`,
+  timestamp: now,
+  title: id,
+  tags: [],
+  revision: 1,
+  updatedAt: now,
+  ...fields,
+})
+
+const tombstone = (id: string, revision: number, updatedAt: number): SnapTombstone => ({
+  id,
+  timestamp: now,
+  revision,
+  updatedAt,
+  deleted: true,
+})
+
+// The mock server: the real sync route over an in-memory store, reached through a stubbed fetch that
+// can be told to fail
+function startServer(initial: SyncRecord[] = []) {
+  const store = new MemoryHistoryStore(initial)
+  ;(globalThis as { historyStore?: HistoryStore }).historyStore = store
+  const requests: Array<{ changes: SyncRecord[]; since: number }> = []
+  // `failures` requests fail with 503; a request waits for `hold` before the route answers it
+  const server = { store, requests, failures: 0, hold: Promise.resolve() }
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    requests.push(JSON.parse(String(init.body)))
+    if (server.failures > 0) {
+      server.failures--
+      return new Response(JSON.stringify({ ok: false, error: "Unavailable" }), { status: 503 })
+    }
+    await server.hold
+    return POST(new Request(new URL(url, "http://localhost"), init))
+  })
+  return server
+}
+
+async function loadModules() {
+  const { SnapStorage } = await import("./storage")
+  const { SnapSync } = await import("./snap-sync")
+  const { openSnapDb } = await import("./snap-db")
+  const db = await openSnapDb()
+  const all = <T>(store: string) =>
+    new Promise<T[]>((resolve, reject) => {
+      const request = db.transaction(store).objectStore(store).getAll()
+      request.onsuccess = () => resolve(request.result as T[])
+      request.onerror = () => reject(request.error)
+    })
+  // Write records straight into the local stores, as an earlier session would have left them
+  const seed = (snaps: SavedSnap[], outbox: SyncRecord[]) =>
+    new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(["snaps", "outbox"], "readwrite")
+      for (const s of snaps) transaction.objectStore("snaps").put(s)
+      for (const record of outbox) transaction.objectStore("outbox").put(record)
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  return {
+    SnapStorage,
+    SnapSync,
+    seed,
+    localSnaps: () => all<SavedSnap>("snaps"),
+    outbox: () => all<SyncRecord>("outbox"),
+  }
+}
+
+describe("SnapSync", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", new IDBFactory())
+    vi.stubGlobal("localStorage", new MemoryStorage())
+    vi.stubEnv("NEXT_PUBLIC_ENABLE_SERVER_HISTORY", "true")
+    // Retry and batching timers only; IndexedDB keeps its own scheduling
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] })
+    // Module state (the database, the engine's queue and backoff) starts fresh
+    vi.resetModules()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  describe("outbox", () => {
+    it("drains in batches until every change has reached the server", async () => {
+      const server = startServer()
+      const { SnapStorage, SnapSync, outbox } = await loadModules()
+      const snaps = Array.from({ length: 450 }, (_, i) => snap(`snap-${i}`, { timestamp: now + i }))
+      await SnapStorage.importData(JSON.stringify({ snaps }))
+      expect(await outbox()).toHaveLength(450)
+
+      const first = await SnapSync.sync()
+      expect(first).toMatchObject({ sent: 200, pending: 250 })
+      // The rest goes out on its own, one batch after another
+      await vi.waitFor(async () => expect(await outbox()).toHaveLength(0))
+
+      expect(server.requests.map((request) => request.changes.length)).toEqual([200, 200, 50])
+      expect(await server.store.list()).toHaveLength(450)
+    })
+
+    it("sends the cursor from the previous sync", async () => {
+      const server = startServer([snap("remote")])
+      const { SnapStorage, SnapSync } = await loadModules()
+      await SnapSync.sync()
+      await SnapStorage.deleteSnap("remote")
+      await SnapSync.sync()
+      expect(server.requests.map((request) => request.since)).toEqual([0, 1])
+      expect(await server.store.list()).toEqual([])
+    })
+
+    it("keeps a change made while its previous version was in flight", async () => {
+      const server = startServer()
+      const { SnapStorage, SnapSync, outbox } = await loadModules()
+      await SnapStorage.importData(JSON.stringify({ snaps: [snap("a")] }))
+      let respond = () => {}
+      server.hold = new Promise((resolve) => (respond = resolve))
+      const syncing = SnapSync.sync()
+      await vi.waitFor(() => expect(server.requests).toHaveLength(1))
+      await SnapStorage.updateSnap("a", { title: "edited meanwhile" })
+      server.hold = Promise.resolve()
+      respond()
+      expect(await syncing).toMatchObject({ sent: 1, pending: 1 })
+      expect(await outbox()).toEqual([expect.objectContaining({ id: "a", title: "edited meanwhile", revision: 2 })])
+
+      await SnapSync.sync()
+      expect(await outbox()).toEqual([])
+      expect(await server.store.get("a")).toMatchObject({ title: "edited meanwhile", revision: 2 })
+    })
+
+    it("drops entries the server rejects and sends the rest", async () => {
+      const server = startServer()
+      const { SnapSync, seed, outbox, localSnaps } = await loadModules()
+      const invalid = snap("invalid", { tags: Array.from({ length: 51 }, (_, i) => `tag-${i}`) })
+      await seed([snap("valid"), invalid], [snap("valid"), invalid])
+      vi.spyOn(console, "warn").mockImplementation(() => {})
+
+      expect(await SnapSync.sync()).toMatchObject({ sent: 2, pending: 0, rejected: ["invalid"] })
+      expect(await outbox()).toEqual([])
+      expect((await server.store.list()).map((s) => s.id)).toEqual(["valid"])
+      // Still on this device
+      expect((await localSnaps()).map((s) => s.id).sort()).toEqual(["invalid", "valid"])
+    })
+  })
+
+  describe("backoff", () => {
+    it("retries a failed sync with exponentially growing delays and keeps the outbox", async () => {
+      const server = startServer()
+      server.failures = 2
+      // No jitter: each delay is the full 2 s × 2^(failures - 1)
+      vi.spyOn(Math, "random").mockReturnValue(1)
+      const { SnapStorage, SnapSync, outbox } = await loadModules()
+      await SnapStorage.importData(JSON.stringify({ snaps: [snap("a")] }))
+
+      await expect(SnapSync.sync()).rejects.toThrow("Sync failed with status 503")
+      expect(await outbox()).toHaveLength(1)
+
+      await vi.advanceTimersByTimeAsync(1_999)
+      expect(server.requests).toHaveLength(1)
+      await vi.advanceTimersByTimeAsync(1)
+      await vi.waitFor(() => expect(server.requests).toHaveLength(2))
+
+      // Second failure: twice the delay
+      await vi.advanceTimersByTimeAsync(3_999)
+      expect(server.requests).toHaveLength(2)
+      await vi.advanceTimersByTimeAsync(1)
+      await vi.waitFor(() => expect(server.requests).toHaveLength(3))
+
+      await vi.waitFor(async () => expect(await outbox()).toEqual([]))
+      expect(await server.store.get("a")).toBeDefined()
+    })
+
+    it("does not let local changes cut a backoff short", async () => {
+      const server = startServer()
+      server.failures = 1
+      vi.spyOn(Math, "random").mockReturnValue(1)
+      const { SnapStorage, SnapSync } = await loadModules()
+      await expect(SnapSync.sync()).rejects.toThrow()
+
+      // Normally a change is sent after 1 s; the pending retry at 2 s takes it instead
+      await SnapStorage.importData(JSON.stringify({ snaps: [snap("a")] }))
+      await vi.advanceTimersByTimeAsync(1_500)
+      expect(server.requests).toHaveLength(1)
+      await vi.advanceTimersByTimeAsync(500)
+      await vi.waitFor(() => expect(server.requests).toHaveLength(2))
+      expect(server.requests[1].changes.map((change) => change.id)).toEqual(["a"])
+    })
+  })
+
+  describe("conflict resolution", () => {
+    it("keeps the higher revision, whatever the timestamps", async () => {
+      const server = startServer([snap("a", { text: "server", revision: 3, updatedAt: now + 1_000 })])
+      const { SnapSync, seed, localSnaps, outbox } = await loadModules()
+      const local = snap("a", { text: "local", revision: 2, updatedAt: now + 9_000 })
+      await seed([local], [local])
+
+      await SnapSync.sync()
+      expect(await localSnaps()).toEqual([expect.objectContaining({ text: "server", revision: 3 })])
+      expect(await server.store.get("a")).toMatchObject({ text: "server", revision: 3 })
+      expect(await outbox()).toEqual([])
+    })
+
+    it("keeps the later change when the revisions are equal", async () => {
+      const server = startServer([snap("b", { text: "server", revision: 2, updatedAt: now + 1_000 })])
+      const { SnapSync, seed, localSnaps, outbox } = await loadModules()
+      const local = snap("b", { text: "local", revision: 2, updatedAt: now + 2_000 })
+      await seed([local], [local])
+
+      await SnapSync.sync()
+      expect(await server.store.get("b")).toMatchObject({ text: "local", updatedAt: now + 2_000 })
+      expect(await localSnaps()).toEqual([expect.objectContaining({ text: "local" })])
+      expect(await outbox()).toEqual([])
+    })
+
+    it("takes the server's change when it is the later one of the same revision", async () => {
+      const server = startServer([snap("b", { text: "server", revision: 2, updatedAt: now + 3_000 })])
+      const { SnapSync, seed, localSnaps, outbox } = await loadModules()
+      const local = snap("b", { text: "local", revision: 2, updatedAt: now + 2_000 })
+      await seed([local], [local])
+
+      expect(await SnapSync.sync()).toMatchObject({ changed: 1 })
+      expect(await localSnaps()).toEqual([expect.objectContaining({ text: "server", updatedAt: now + 3_000 })])
+      expect(await server.store.get("b")).toMatchObject({ text: "server" })
+      expect(await outbox()).toEqual([])
+    })
+
+    it("lets a server tombstone win a tie with a local edit", async () => {
+      const server = startServer([tombstone("c", 2, now + 1_000)])
+      const { SnapSync, seed, localSnaps, outbox } = await loadModules()
+      const local = snap("c", { text: "local", revision: 2, updatedAt: now + 1_000 })
+      await seed([local], [local])
+
+      expect(await SnapSync.sync()).toMatchObject({ changed: 1 })
+      expect(await localSnaps()).toEqual([])
+      expect(await outbox()).toEqual([])
+      expect((await server.store.records())[0]).toMatchObject({ id: "c", deleted: true })
+    })
+
+    it("lets a local tombstone win a tie with a server edit", async () => {
+      const server = startServer([snap("d", { text: "server", revision: 2, updatedAt: now + 1_000 })])
+      const { SnapSync, seed, outbox } = await loadModules()
+      await seed([], [tombstone("d", 2, now + 1_000)])
+
+      await SnapSync.sync()
+      expect(await server.store.get("d")).toBeUndefined()
+      expect(await outbox()).toEqual([])
+    })
+
+    it("does not resurrect a snap deleted on this device from an older server copy", async () => {
+      const server = startServer([snap("e", { revision: 1 })])
+      const { SnapSync, seed, localSnaps } = await loadModules()
+      await seed([], [tombstone("e", 2, now + 2_000)])
+
+      expect(await SnapSync.sync()).toMatchObject({ added: [], changed: 0 })
+      expect(await localSnaps()).toEqual([])
+      expect(await server.store.get("e")).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,244 @@
+import { syncRecordSchema } from "./history-store/schema"
+import { OUTBOX_STORE, SERVER_HISTORY_ENABLED, SNAP_STORE, openSnapDb, requestResult, transactionDone } from "./snap-db"
+import { compareVersions, isTombstone, type SyncRecord } from "./snap-versions"
+import type { SavedSnap } from "./storage"
+
+// Offline-first sync of the snap history with the server. SnapStorage writes every local change to
+// the outbox in the same transaction as the change itself, so edits made offline or while the server
+// is down are never lost. A sync sends the outbox to POST /api/history/sync with the cursor from the
+// last sync, merges the records changed since then using the same rule the server uses (see
+// lib/snap-versions.ts), and clears each outbox entry the server has caught up with. Entries the server
+// rejects as invalid are dropped, since resending them could never succeed; the snap stays on this
+// device. Failed syncs retry with exponential backoff.
+
+// Overridable so the engine can be pointed at a mock server
+const SYNC_URL = process.env.NEXT_PUBLIC_HISTORY_SYNC_URL || "/api/history/sync"
+
+// Outbox entries per request; the route accepts up to 500
+const BATCH_SIZE = 200
+const REQUEST_TIMEOUT = 15_000
+// Wait after a local change, so a burst of edits goes out in one request
+const CHANGE_DELAY = 1_000
+const RETRY_BASE_DELAY = 2_000
+const RETRY_MAX_DELAY = 5 * 60_000
+// The server's cursor after the last successful sync
+const CURSOR_KEY = "snap-editor-sync-cursor"
+
+export interface SyncResult {
+  // Outbox entries sent
+  sent: number
+  // Snaps the server had that this device did not
+  added: string[]
+  // Local snaps replaced or deleted by a newer server version
+  changed: number
+  // Outbox entries still waiting, e.g. changes made while the request was in flight
+  pending: number
+  // Ids of outbox entries the server refused as invalid and that were dropped
+  rejected: string[]
+}
+
+interface SyncResponse {
+  records: SyncRecord[]
+  rejected: string[]
+  cursor: number
+}
+
+export interface SyncOptions {
+  // Snaps kept on this device (AppSettings.maxHistory, 0 for all). Server snaps too old to make the
+  // cut are not pulled in, only to be evicted again by retention.
+  maxHistory?: () => number
+}
+
+// Exponential backoff with jitter, so tabs that failed together do not retry together
+const retryDelay = (failures: number) =>
+  Math.min(RETRY_BASE_DELAY * 2 ** (failures - 1), RETRY_MAX_DELAY) * (0.5 + Math.random() / 2)
+
+export class SnapSync {
+  private static queue: Promise<unknown> = Promise.resolve()
+  private static timer: ReturnType<typeof setTimeout> | null = null
+  private static failures = 0
+  private static options: SyncOptions = {}
+  private static readonly listeners = new Set<(result: SyncResult) => void>()
+
+  // Sync now, after any sync already in progress. Rejects when the server cannot be reached or refuses
+  // the changes; a retry is scheduled and the outbox is kept.
+  static sync(): Promise<SyncResult> {
+    const result = this.queue.then(() => this.exchange())
+    this.queue = result.catch(() => {})
+    return result.then(
+      (synced) => {
+        this.failures = 0
+        if (synced.pending > 0) this.schedule(0)
+        for (const listener of this.listeners) listener(synced)
+        return synced
+      },
+      (error) => {
+        this.failures++
+        this.schedule(retryDelay(this.failures))
+        throw error
+      },
+    )
+  }
+
+  static configure(options: SyncOptions): void {
+    this.options = options
+  }
+
+  // Called after every local change
+  static requestSync(): void {
+    if (!SERVER_HISTORY_ENABLED) return
+    // While the server is failing, the backoff timer is already due to send the outbox
+    if (this.failures > 0 && this.timer) return
+    this.schedule(CHANGE_DELAY)
+  }
+
+  // Sync now and whenever the browser comes back online, until the returned function is called
+  static start(): () => void {
+    if (!SERVER_HISTORY_ENABLED) return () => {}
+    const onOnline = () => {
+      this.failures = 0
+      this.schedule(0)
+    }
+    window.addEventListener("online", onOnline)
+    this.schedule(0)
+    return () => {
+      window.removeEventListener("online", onOnline)
+      if (this.timer) clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  // `listener` runs after every successful sync
+  static subscribe(listener: (result: SyncResult) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private static schedule(delay: number) {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.sync().catch((error) => console.warn("History sync failed; will retry", error))
+    }, delay)
+  }
+
+  private static async exchange(): Promise<SyncResult> {
+    const db = await openSnapDb()
+    const outbox = db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE)
+    const changes = await requestResult(outbox.getAll(undefined, BATCH_SIZE) as IDBRequest<SyncRecord[]>)
+    const response = await this.send(changes, this.cursor())
+    const result = { sent: changes.length, ...(await this.merge(db, changes, response)) }
+    // Only once the records are stored, or a failed merge would skip them next time
+    this.saveCursor(response.cursor)
+    return result
+  }
+
+  private static cursor(): number {
+    try {
+      return Number(localStorage.getItem(CURSOR_KEY)) || 0
+    } catch {
+      return 0
+    }
+  }
+
+  private static saveCursor(cursor: number) {
+    try {
+      localStorage.setItem(CURSOR_KEY, String(cursor))
+    } catch {}
+  }
+
+  private static async send(changes: SyncRecord[], since: number): Promise<SyncResponse> {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+    try {
+      const res = await fetch(SYNC_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ changes, since }),
+        signal: controller.signal,
+        cache: "no-store",
+      })
+      if (!res.ok) throw new Error(`Sync failed with status ${res.status}`)
+      const data = (await res.json()) as { records?: unknown; rejected?: unknown; cursor?: unknown }
+      if (!Array.isArray(data.records)) throw new Error("Sync response has no records")
+      // Skip malformed entries rather than the whole response
+      const records = data.records.flatMap((record) => {
+        const parsed = syncRecordSchema.safeParse(record)
+        return parsed.success ? [parsed.data] : []
+      })
+      const rejected = Array.isArray(data.rejected) ? data.rejected.filter((id): id is string => typeof id === "string") : []
+      const cursor = typeof data.cursor === "number" && data.cursor >= 0 ? data.cursor : 0
+      return { records, rejected, cursor }
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+
+  // Apply the server's records in one transaction. An outbox entry is done once the server's version
+  // is at least as new; a newer one (changed while the request was in flight) stays queued and keeps
+  // the local snap as it is. A rejected entry is dropped unless it changed since it was sent.
+  private static async merge(
+    db: IDBDatabase,
+    sent: SyncRecord[],
+    { records, rejected }: SyncResponse,
+  ): Promise<Omit<SyncResult, "sent">> {
+    const transaction = db.transaction([SNAP_STORE, OUTBOX_STORE], "readwrite")
+    const done = transactionDone(transaction)
+    const snaps = transaction.objectStore(SNAP_STORE)
+    const outbox = transaction.objectStore(OUTBOX_STORE)
+    const [localSnaps, queued] = await Promise.all([
+      requestResult(snaps.getAll() as IDBRequest<SavedSnap[]>),
+      requestResult(outbox.getAll() as IDBRequest<SyncRecord[]>),
+    ])
+    const local = new Map(localSnaps.map((snap) => [snap.id, snap]))
+    const pending = new Map(queued.map((record) => [record.id, record]))
+
+    const sentById = new Map(sent.map((record) => [record.id, record]))
+    const dropped: string[] = []
+    for (const id of new Set(rejected)) {
+      const waiting = pending.get(id)
+      const rejectedVersion = sentById.get(id)
+      if (!waiting || !rejectedVersion || compareVersions(waiting, rejectedVersion) !== 0) continue
+      outbox.delete(id)
+      pending.delete(id)
+      dropped.push(id)
+    }
+    if (dropped.length > 0) console.warn(`History sync: the server rejected ${dropped.join(", ")}; kept on this device only`)
+
+    const incoming: SavedSnap[] = []
+    let changed = 0
+    for (const record of records) {
+      const waiting = pending.get(record.id)
+      if (waiting) {
+        if (compareVersions(waiting, record) > 0) continue
+        outbox.delete(record.id)
+        pending.delete(record.id)
+      }
+      const current = local.get(record.id)
+      if (isTombstone(record)) {
+        if (!current) continue
+        snaps.delete(record.id)
+        local.delete(record.id)
+        changed++
+      } else if (!current) {
+        incoming.push(record)
+      } else if (compareVersions(record, current) > 0) {
+        snaps.put(record)
+        changed++
+      }
+    }
+    const added = this.withinRetention(incoming, [...local.values()])
+    for (const snap of added) snaps.put(snap)
+    await done
+    return { added: added.map((snap) => snap.id), changed, pending: pending.size, rejected: dropped }
+  }
+
+  // The incoming snaps new enough to be among the newest maxHistory once merged with the local ones
+  private static withinRetention(incoming: SavedSnap[], local: SavedSnap[]): SavedSnap[] {
+    const limit = this.options.maxHistory?.() ?? 0
+    if (limit <= 0 || local.length + incoming.length <= limit) return incoming
+    const timestamps = [...local, ...incoming].map((snap) => snap.timestamp).sort((a, b) => b - a)
+    const oldestKept = timestamps[limit - 1]
+    return incoming.filter((snap) => snap.timestamp >= oldestKept)
+  }
+}
@@ -0,0 +1,69 @@
+import type { SavedSnap } from "./storage"
+
+// Versioning shared by the browser and the server so both pick the same winner when two copies of a
+// snap meet. Every change bumps `revision` and stamps `updatedAt`; a deletion is a tombstone with the
+// next revision, so it travels through sync like any other change instead of being undone by a stale copy.
+
+export interface SnapTombstone {
+  id: string
+  timestamp: number
+  updatedAt: number
+  revision: number
+  deleted: true
+  sequence?: number
+}
+
+// One entry in a sync exchange: a live snap or the tombstone of a deleted one
+export type SyncRecord = SavedSnap | SnapTombstone
+
+export const isTombstone = (record: SyncRecord): record is SnapTombstone => "deleted" in record && record.deleted === true
+
+// Snaps saved before versioning count as revision 0, last changed when they were created
+export const revisionOf = (record: SyncRecord) => record.revision ?? 0
+export const updatedAtOf = (record: SyncRecord) => record.updatedAt ?? record.timestamp
+// Records the server has not stamped yet sort before every stamped one
+export const sequenceOf = (record: SyncRecord) => record.sequence ?? 0
+
+// JSON with object keys sorted, so equal content always serializes the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+    entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`
+  }
+  return JSON.stringify(value) ?? "null"
+}
+
+const contentOf = (record: SyncRecord) =>
+  isTombstone(record) ? "" : stableStringify([record.text, record.title ?? "", record.tags ?? [], record.settings ?? null])
+
+// Total order on versions of one snap: higher revision, then later updatedAt, then the tombstone, then
+// the greater content. Concurrent edits of the same revision therefore resolve last-writer-wins, and
+// identical timestamps still resolve the same way everywhere.
+export function compareVersions(a: SyncRecord, b: SyncRecord): number {
+  const content = (x: string, y: string) => (x < y ? -1 : x > y ? 1 : 0)
+  return (
+    revisionOf(a) - revisionOf(b) ||
+    updatedAtOf(a) - updatedAtOf(b) ||
+    Number(isTombstone(a)) - Number(isTombstone(b)) ||
+    content(contentOf(a), contentOf(b))
+  )
+}
+
+// The version to keep; `current` on a tie
+export const newerVersion = <T extends SyncRecord>(current: T, incoming: T): T =>
+  compareVersions(incoming, current) > 0 ? incoming : current
+
+// Version fields for the next change to `current` (undefined for a new snap)
+export const nextVersion = (current?: SyncRecord, now = Date.now()) => ({
+  revision: current ? revisionOf(current) + 1 : 1,
+  updatedAt: now,
+})
+
+export const tombstoneOf = (record: SyncRecord, now = Date.now()): SnapTombstone => ({
+  id: record.id,
+  timestamp: record.timestamp,
+  ...nextVersion(record, now),
+  deleted: true,
+})
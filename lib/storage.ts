@@ -1,9 +1,31 @@
+import {
+  OUTBOX_STORE,
+  SERVER_HISTORY_ENABLED,
+  SNAP_STORE,
+  openSnapDb,
+  requestResult,
+  transactionDone,
+  walkCursor,
+} from "./snap-db"
+import { savedSnapSchema } from "./history-store/schema"
+import { SNAP_LIMITS, type SnapRenderSettings } from "./snap-metadata"
+import { SnapSync, type SyncResult } from "./snap-sync"
+import { nextVersion, tombstoneOf } from "./snap-versions"
+
 export interface SavedSnap {
   id: string
   text: string
   timestamp: number
   title?: string
   tags?: string[]
+  // How the snap was rendered, when it was restored from an exported image
+  settings?: SnapRenderSettings
+  // Bumped by every change; see lib/snap-versions.ts. Missing on snaps saved before sync.
+  revision?: number
+  updatedAt?: number
+  // Where the server's last stored change to the snap falls in its change log (the sync cursor).
+  // Assigned by the server only; it plays no part in which version wins.
+  sequence?: number
 }
 
 export interface StorageStats {
@@ -13,141 +35,164 @@ export interface StorageStats {
   newestSnap?: number
 }
 
-const STORAGE_KEY = "snap-editor-history"
+// Result of a change that may have pushed the history past AppSettings.maxHistory. Evicted snaps are
+// gone from this device, so callers must tell the user (see evictionMessage).
+export interface SaveResult {
+  snap: SavedSnap
+  evicted: SavedSnap[]
+}
+
 const SETTINGS_KEY = "snap-editor-settings"
-const MAX_SNAPS = 100
+// Saved settings still at the old default of 100 are raised to this once (see lib/snap-db.ts)
+const DEFAULT_MAX_HISTORY = 1000
+
+// Case-insensitive match on text, title and tags
+export function filterSnaps(snaps: SavedSnap[], query: string): SavedSnap[] {
+  const lowercaseQuery = query.toLowerCase()
+
+  return snaps.filter(
+    (snap) =>
+      snap.text.toLowerCase().includes(lowercaseQuery) ||
+      snap.title?.toLowerCase().includes(lowercaseQuery) ||
+      snap.tags?.some((tag) => tag.toLowerCase().includes(lowercaseQuery)),
+  )
+}
 
-const SERVER_HISTORY_ENABLED = process.env.NEXT_PUBLIC_ENABLE_SERVER_HISTORY === "true"
+// User-facing note for snaps evicted by the retention limit
+export function evictionMessage(evicted: SavedSnap[]): string {
+  const limit = SnapStorage.getSettings().maxHistory
+  return `Removed the ${evicted.length === 1 ? "oldest snap" : `${evicted.length} oldest snaps`} to stay within your history limit of ${limit}`
+}
 
 export interface AppSettings {
   autoSave: boolean
+  // Snaps kept on this device, oldest evicted first; 0 keeps everything
   maxHistory: number
   theme: "light" | "dark" | "auto"
 }
 
 const defaultSettings: AppSettings = {
   autoSave: true,
-  maxHistory: MAX_SNAPS,
+  maxHistory: DEFAULT_MAX_HISTORY,
   theme: "auto",
 }
 
+// Snaps live in IndexedDB (see lib/snap-db.ts), so every read and write is async
 export class SnapStorage {
-  static getSnaps(): SavedSnap[] {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY)
-      return saved ? JSON.parse(saved) : []
-    } catch (error) {
-      console.error("Error loading snaps:", error)
-      return []
-    }
+  // Newest first
+  static async getSnaps(): Promise<SavedSnap[]> {
+    const db = await openSnapDb()
+    const index = db.transaction(SNAP_STORE).objectStore(SNAP_STORE).index("timestamp")
+    return (await requestResult(index.getAll() as IDBRequest<SavedSnap[]>)).reverse()
   }
 
-  // Load from server file and mirror to localStorage
-  static async syncFromServer(): Promise<SavedSnap[]> {
-    if (!SERVER_HISTORY_ENABLED) {
-      return this.getSnaps()
-    }
-    try {
-      const res = await fetch('/api/history', { cache: 'no-store' })
-      if (!res.ok) return this.getSnaps()
-      const data = (await res.json()) as { snaps: SavedSnap[] }
-      const snaps = Array.isArray(data.snaps) ? data.snaps : []
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(snaps.slice(0, MAX_SNAPS)))
-      return snaps
-    } catch {
-      return this.getSnaps()
+  // Newest first; read through the multi-entry tags index instead of scanning every snap
+  static async getSnapsByTag(tag: string): Promise<SavedSnap[]> {
+    const db = await openSnapDb()
+    const index = db.transaction(SNAP_STORE).objectStore(SNAP_STORE).index("tags")
+    const snaps = await requestResult(index.getAll(tag) as IDBRequest<SavedSnap[]>)
+    return snaps.sort((a, b) => b.timestamp - a.timestamp)
+  }
+
+  // Keep syncing in the background until the returned function is called. `onChange` runs after each
+  // sync that changed the local history, with the snaps retention evicted as a result.
+  static startSync(onChange: (evicted: SavedSnap[]) => void): () => void {
+    const unsubscribe = SnapSync.subscribe((result) => {
+      this.afterSync(result)
+        .then((evicted) => {
+          if (result.added.length > 0 || result.changed > 0 || evicted.length > 0) onChange(evicted)
+        })
+        .catch((e) => console.error("Error applying history retention:", e))
+    })
+    const stop = SnapSync.start()
+    return () => {
+      unsubscribe()
+      stop()
     }
   }
 
-  static saveSnap(text: string, title?: string, tags?: string[]): SavedSnap {
-    const snaps = this.getSnaps()
+  // Snaps a sync pulled in beyond the retention limit are trimmed again right away. They were never on
+  // this device (the server keeps them), so only the others count as evicted.
+  private static async afterSync(result: SyncResult): Promise<SavedSnap[]> {
+    const added = new Set(result.added)
+    return (await this.applyRetention()).filter((snap) => !added.has(snap.id))
+  }
 
+  // Rejects when the snap cannot be stored (e.g. the quota is exhausted); nothing is removed to make room
+  static async saveSnap(text: string, title?: string, tags?: string[], settings?: SnapRenderSettings): Promise<SaveResult> {
+    const now = Date.now()
     const newSnap: SavedSnap = {
-      id: Date.now().toString(),
+      id: now.toString(),
       text: text.trim(),
-      timestamp: Date.now(),
+      timestamp: now,
       title: title || this.generateTitle(text),
       tags: tags || [],
+      ...(settings ? { settings } : {}),
+      ...nextVersion(undefined, now),
     }
 
-    // Add to beginning and limit total
-    const updatedSnaps = [newSnap, ...snaps].slice(0, MAX_SNAPS)
+    await this.write((store, outbox) => {
+      store.put(newSnap)
+      outbox?.put(newSnap)
+    })
+    SnapSync.requestSync()
 
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedSnaps))
-    } catch (error) {
-      console.error("Error saving snap:", error)
-      // If storage is full, try removing oldest snaps
-      const reducedSnaps = updatedSnaps.slice(0, Math.floor(MAX_SNAPS / 2))
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(reducedSnaps))
-    }
-
-    // Fire-and-forget server persistence
-    this.persistToServer(newSnap).catch(() => {})
-
-    return newSnap
+    return { snap: newSnap, evicted: await this.applyRetention() }
   }
 
-  static updateSnap(id: string, updates: Partial<SavedSnap>): boolean {
-    const snaps = this.getSnaps()
-    const index = snaps.findIndex((snap) => snap.id === id)
-
-    if (index === -1) return false
-
-    snaps[index] = { ...snaps[index], ...updates }
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(snaps))
-    return true
+  static async updateSnap(id: string, updates: Partial<SavedSnap>): Promise<boolean> {
+    // The id is the snap's identity and the version is assigned here
+    const { id: _id, revision: _revision, updatedAt: _updatedAt, ...changes } = updates
+    let found = false
+    await this.write(async (store, outbox) => {
+      const snap = await requestResult(store.get(id) as IDBRequest<SavedSnap | undefined>)
+      if (!snap) return
+      found = true
+      const updated = { ...snap, ...changes, ...nextVersion(snap) }
+      store.put(updated)
+      outbox?.put(updated)
+    })
+    if (found) SnapSync.requestSync()
+    return found
   }
 
-  private static async persistToServer(snap: SavedSnap): Promise<void> {
-    if (!SERVER_HISTORY_ENABLED) return
-    try {
-      await fetch('/api/history', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(snap),
-      })
-    } catch (e) {
-      // Non-fatal in client; data remains in localStorage
-      console.warn('Failed to persist history to server file', e)
-    }
+  static async deleteSnap(id: string): Promise<boolean> {
+    return (await this.deleteSnaps([id])) > 0
   }
 
-  static deleteSnap(id: string): boolean {
-    const snaps = this.getSnaps()
-    const filtered = snaps.filter((snap) => snap.id !== id)
-
-    if (filtered.length === snaps.length) return false
-
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered))
-    return true
+  // Deleted snaps leave a tombstone in the outbox so the deletion reaches the server and other devices
+  static async deleteSnaps(ids: string[]): Promise<number> {
+    let count = 0
+    await this.write(async (store, outbox) => {
+      for (const id of new Set(ids)) {
+        const snap = await requestResult(store.get(id) as IDBRequest<SavedSnap | undefined>)
+        if (!snap) continue
+        store.delete(id)
+        outbox?.put(tombstoneOf(snap))
+        count++
+      }
+    })
+    if (count > 0) SnapSync.requestSync()
+    return count
   }
 
-  static searchSnaps(query: string): SavedSnap[] {
-    const snaps = this.getSnaps()
-    const lowercaseQuery = query.toLowerCase()
-
-    return snaps.filter(
-      (snap) =>
-        snap.text.toLowerCase().includes(lowercaseQuery) ||
-        snap.title?.toLowerCase().includes(lowercaseQuery) ||
-        snap.tags?.some((tag) => tag.toLowerCase().includes(lowercaseQuery)),
-    )
+  static async searchSnaps(query: string): Promise<SavedSnap[]> {
+    return filterSnaps(await this.getSnaps(), query)
   }
 
-  static getStats(): StorageStats {
-    const snaps = this.getSnaps()
+  static async getStats(): Promise<StorageStats> {
+    const snaps = await this.getSnaps()
 
     return {
       totalSnaps: snaps.length,
       totalCharacters: snaps.reduce((total, snap) => total + snap.text.length, 0),
-      oldestSnap: snaps.length > 0 ? Math.min(...snaps.map((s) => s.timestamp)) : undefined,
-      newestSnap: snaps.length > 0 ? Math.max(...snaps.map((s) => s.timestamp)) : undefined,
+      oldestSnap: snaps.length > 0 ? snaps[snaps.length - 1].timestamp : undefined,
+      newestSnap: snaps.length > 0 ? snaps[0].timestamp : undefined,
     }
   }
 
-  static exportData(): string {
-    const snaps = this.getSnaps()
+  static async exportData(): Promise<string> {
+    const snaps = await this.getSnaps()
     const settings = this.getSettings()
 
     return JSON.stringify(
@@ -162,42 +207,64 @@ export class SnapStorage {
     )
   }
 
-  static importData(jsonData: string): { success: boolean; message: string; imported: number } {
+  static async importData(
+    jsonData: string,
+  ): Promise<{ success: boolean; message: string; imported: number; evicted: SavedSnap[] }> {
+    let data: { snaps?: unknown }
     try {
-      const data = JSON.parse(jsonData)
-
-      if (!data.snaps || !Array.isArray(data.snaps)) {
-        return { success: false, message: "Invalid data format", imported: 0 }
-      }
-
-      const existingSnaps = this.getSnaps()
-      const existingIds = new Set(existingSnaps.map((s) => s.id))
+      data = JSON.parse(jsonData)
+    } catch {
+      return { success: false, message: "Failed to parse import data", imported: 0, evicted: [] }
+    }
 
-      // Filter out duplicates
-      const newSnaps = data.snaps.filter((snap: SavedSnap) => !existingIds.has(snap.id))
+    if (!data.snaps || !Array.isArray(data.snaps)) {
+      return { success: false, message: "Invalid data format", imported: 0, evicted: [] }
+    }
 
-      if (newSnaps.length === 0) {
-        return { success: false, message: "No new snaps to import", imported: 0 }
-      }
+    const existingIds = new Set((await this.getSnaps()).map((s) => s.id))
 
-      // Merge and sort by timestamp
-      const mergedSnaps = [...existingSnaps, ...newSnaps].sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_SNAPS)
+    // Filter out duplicates and entries that are not valid snaps; the server would refuse those in sync
+    const newSnaps = data.snaps.flatMap((entry: unknown) => {
+      const parsed = savedSnapSchema.safeParse(entry)
+      return parsed.success && !existingIds.has(parsed.data.id) ? [parsed.data] : []
+    })
 
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(mergedSnaps))
+    if (newSnaps.length === 0) {
+      return { success: false, message: "No new snaps to import", imported: 0, evicted: [] }
+    }
 
-      return {
-        success: true,
-        message: `Successfully imported ${newSnaps.length} snaps`,
-        imported: newSnaps.length,
-      }
+    try {
+      await this.write((store, outbox) => {
+        for (const snap of newSnaps) {
+          const imported = { ...snap, tags: snap.tags ?? [] }
+          store.put(imported)
+          outbox?.put(imported)
+        }
+      })
+      SnapSync.requestSync()
     } catch (error) {
-      return { success: false, message: "Failed to parse import data", imported: 0 }
+      console.error("Error importing snaps:", error)
+      return { success: false, message: "Could not store the imported snaps", imported: 0, evicted: [] }
+    }
+
+    const evicted = await this.applyRetention()
+    return {
+      success: true,
+      message: `Successfully imported ${newSnaps.length} snaps${evicted.length > 0 ? `. ${evictionMessage(evicted)}` : ""}`,
+      imported: newSnaps.length,
+      evicted,
     }
   }
 
-  static clearAll(): boolean {
+  static async clearAll(): Promise<boolean> {
     try {
-      localStorage.removeItem(STORAGE_KEY)
+      await this.write(async (store, outbox) => {
+        if (outbox) {
+          for (const snap of await requestResult(store.getAll() as IDBRequest<SavedSnap[]>)) outbox.put(tombstoneOf(snap))
+        }
+        store.clear()
+      })
+      SnapSync.requestSync()
       return true
     } catch (error) {
       console.error("Error clearing storage:", error)
@@ -205,6 +272,48 @@ export class SnapStorage {
     }
   }
 
+  // Snaps that applyRetention would evict under `limit`, oldest first; lets the UI confirm a lower limit
+  static async overLimit(limit: number): Promise<SavedSnap[]> {
+    if (limit <= 0) return []
+    const snaps = await this.getSnaps()
+    return snaps.slice(limit).reverse()
+  }
+
+  // Evict the oldest snaps beyond AppSettings.maxHistory and return them. Only this device's copy is
+  // removed; with server history enabled the server keeps them.
+  static async applyRetention(): Promise<SavedSnap[]> {
+    const limit = this.getSettings().maxHistory
+    if (limit <= 0) return []
+    const evicted: SavedSnap[] = []
+    await this.write(async (store) => {
+      let excess = (await requestResult(store.count())) - limit
+      if (excess <= 0) return
+      await walkCursor(store.index("timestamp").openCursor(), (cursor) => {
+        evicted.push(cursor.value as SavedSnap)
+        cursor.delete()
+        return --excess > 0
+      })
+    })
+    return evicted
+  }
+
+  // Run `change` in one readwrite transaction over the snaps and the sync outbox and wait for it to
+  // commit. Changes the server should see must also go into the outbox, followed by SnapSync.requestSync().
+  // Without server history nothing would ever drain the outbox, so `outbox` is null and nothing is queued.
+  private static async write(change: (store: IDBObjectStore, outbox: IDBObjectStore | null) => unknown): Promise<void> {
+    const db = await openSnapDb()
+    const transaction = db.transaction(SERVER_HISTORY_ENABLED ? [SNAP_STORE, OUTBOX_STORE] : [SNAP_STORE], "readwrite")
+    const done = transactionDone(transaction)
+    try {
+      await change(transaction.objectStore(SNAP_STORE), SERVER_HISTORY_ENABLED ? transaction.objectStore(OUTBOX_STORE) : null)
+    } catch (error) {
+      transaction.abort()
+      await done.catch(() => {})
+      throw error
+    }
+    await done
+  }
+
   static getSettings(): AppSettings {
     try {
       const saved = localStorage.getItem(SETTINGS_KEY)
@@ -229,6 +338,10 @@ export class SnapStorage {
     // Generate a title from the first line or first few words
     const firstLine = text.split("\n")[0].trim()
     const words = firstLine.split(" ").slice(0, 6)
-    return words.join(" ") + (firstLine.split(" ").length > 6 ? "..." : "")
+    const title = words.join(" ") + (firstLine.split(" ").length > 6 ? "..." : "")
+    // A long unbroken first line would exceed the limit the server enforces
+    return title.length > SNAP_LIMITS.title ? `${title.slice(0, SNAP_LIMITS.title - 3)}...` : title
   }
 }
+
+SnapSync.configure({ maxHistory: () => SnapStorage.getSettings().maxHistory })
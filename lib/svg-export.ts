@@ -0,0 +1,183 @@
+import {
+  GLASS_BLUR,
+  GLASS_OPACITY,
+  linearGradientLine,
+  patternShapesSvg,
+  patternTile,
+  radialGradientRadius,
+} from "./backgrounds"
+import { chromeShapesSvg } from "./chrome"
+import type { CardLayout, ImageOptions, LaidOutRun } from "./image-generator"
+
+// SVG export of a card layout. Shapes and text mirror paintCard in ImageGenerator, and the text is
+// real <text> elements positioned from the same layout pass, so it stays editable in design tools.
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const num = (value: number) => String(Math.round(value * 100) / 100)
+
+// SVG presentation attributes matching runFont() for the run's style
+function fontAttributes(run: LaidOutRun): string {
+  let attrs = `font-family="${escapeXml(run.family)}" font-size="${num(run.size)}"`
+  if (run.weight !== 400) attrs += ` font-weight="${run.weight}"`
+  if (run.letterSpacing) attrs += ` letter-spacing="${num(run.letterSpacing)}"`
+  if (run.italic) attrs += ` font-style="italic"`
+  return attrs
+}
+
+function runElements(run: LaidOutRun, opts: Pick<ImageOptions, "textColor">): string[] {
+  const fontSize = run.size
+  const parts: string[] = []
+  if (run.code) {
+    parts.push(
+      `<rect x="${num(run.x - fontSize * 0.15)}" y="${num(run.y - fontSize * 0.15)}" width="${num(run.width + fontSize * 0.3)}" height="${num(fontSize * 1.3)}" rx="${num(fontSize * 0.25)}" fill="${escapeXml(opts.textColor)}" fill-opacity="0.12"/>`,
+    )
+  }
+  if (run.text.trim()) {
+    // textLength pins each run to the width measured on canvas, even when the viewer substitutes the font;
+    // xml:space sits on every <text> because some renderers do not inherit it, which would eat code indentation
+    // Right-to-left runs anchor their start (right edge) and let the viewer order and shape the glyphs
+    const x = run.direction === "rtl" ? run.x + run.width : run.x
+    const direction = run.direction === "rtl" ? ` direction="rtl" unicode-bidi="embed"` : ""
+    parts.push(
+      `<text xml:space="preserve" x="${num(x)}" y="${num(run.baseline)}"${direction} ${fontAttributes(run)} fill="${escapeXml(run.color)}" textLength="${num(run.width)}" lengthAdjust="spacingAndGlyphs">${escapeXml(run.text)}</text>`,
+    )
+  }
+  if (run.strike) {
+    parts.push(
+      `<rect x="${num(run.x)}" y="${num(run.y + fontSize * 0.55)}" width="${num(run.width)}" height="${num(Math.max(1, fontSize * 0.07))}" fill="${escapeXml(run.color)}"/>`,
+    )
+  }
+  return parts
+}
+
+// Background group (id "background") plus the <defs> it needs, mirroring ImageGenerator.drawBackground
+function backgroundElements(layout: CardLayout, opts: ImageOptions): { defs: string[]; body: string[] } {
+  const { width, height } = layout
+  const fill = opts.background
+  const size = `width="${num(width)}" height="${num(height)}"`
+  const defs: string[] = []
+  const body: string[] = [`<g id="background">`]
+  if (fill?.kind === "linear" || fill?.kind === "radial") {
+    const stops = fill.colors
+      .map((color, i) => `<stop offset="${fill.colors.length > 1 ? num(i / (fill.colors.length - 1)) : 0}" stop-color="${escapeXml(color)}"/>`)
+      .join("")
+    if (fill.kind === "linear") {
+      const { x0, y0, x1, y1 } = linearGradientLine(fill.angle, width, height)
+      defs.push(
+        `<linearGradient id="bg-fill" gradientUnits="userSpaceOnUse" x1="${num(x0)}" y1="${num(y0)}" x2="${num(x1)}" y2="${num(y1)}">${stops}</linearGradient>`,
+      )
+    } else {
+      defs.push(
+        `<radialGradient id="bg-fill" gradientUnits="userSpaceOnUse" cx="${num(width / 2)}" cy="${num(height / 2)}" r="${num(radialGradientRadius(width, height))}">${stops}</radialGradient>`,
+      )
+    }
+    body.push(`<rect ${size} fill="url(#bg-fill)"/>`)
+  } else if (fill?.kind === "pattern") {
+    const tile = patternTile(fill.pattern).size
+    defs.push(
+      `<pattern id="bg-pattern" patternUnits="userSpaceOnUse" width="${tile}" height="${tile}">${patternShapesSvg(fill.pattern, fill.ink)}</pattern>`,
+    )
+    body.push(`<rect ${size} fill="${escapeXml(fill.color)}"/>`, `<rect ${size} fill="url(#bg-pattern)"/>`)
+  } else if (fill?.kind === "photo") {
+    const bleed = fill.blur * 2
+    if (fill.blur > 0) defs.push(`<filter id="bg-blur"><feGaussianBlur stdDeviation="${num(fill.blur)}"/></filter>`)
+    body.push(
+      `<rect ${size} fill="${escapeXml(opts.backgroundColor)}"/>`,
+      `<image href="${escapeXml(fill.src)}" x="${num(-bleed)}" y="${num(-bleed)}" width="${num(width + bleed * 2)}" height="${num(height + bleed * 2)}" preserveAspectRatio="xMidYMid slice"${fill.blur > 0 ? ` filter="url(#bg-blur)"` : ""}/>`,
+      `<rect ${size} fill="#000000" fill-opacity="${num(fill.dim)}"/>`,
+    )
+  } else {
+    body.push(`<rect ${size} fill="${escapeXml(opts.backgroundColor)}"/>`)
+  }
+  body.push(`</g>`)
+  return { defs, body }
+}
+
+// Code panels, text and footer of a card: everything the layout pass positions. Shared with the
+// editor preview, which overlays it on the DOM card so the typed card and the export are one layout.
+export function cardContentSvg(layout: CardLayout, opts: Pick<ImageOptions, "textColor">): { defs: string[]; body: string[] } {
+  const defs: string[] = []
+  const body: string[] = []
+  for (const panel of layout.codePanels) {
+    body.push(
+      `<rect x="${num(panel.x)}" y="${num(panel.y)}" width="${num(panel.width)}" height="${num(panel.height)}" rx="${num(layout.fontSize * 0.4)}" fill="${escapeXml(opts.textColor)}" fill-opacity="0.08"/>`,
+    )
+  }
+
+  body.push(`<g id="text">`)
+  for (const line of layout.lines) {
+    for (const run of line.runs) body.push(...runElements(run, opts))
+  }
+  body.push(`</g>`)
+
+  if (layout.footer) {
+    const { avatar, lines } = layout.footer
+    const radius = avatar.width / 2
+    const circle = `cx="${num(avatar.x + radius)}" cy="${num(avatar.y + radius)}" r="${num(radius)}"`
+    body.push(`<g id="footer">`)
+    if (avatar.src) {
+      defs.push(`<clipPath id="avatar-clip"><circle ${circle}/></clipPath>`)
+      body.push(
+        `<image href="${escapeXml(avatar.src)}" x="${num(avatar.x)}" y="${num(avatar.y)}" width="${num(avatar.width)}" height="${num(avatar.height)}" preserveAspectRatio="xMidYMid slice" clip-path="url(#avatar-clip)"/>`,
+      )
+    } else {
+      body.push(
+        `<circle ${circle} fill="${escapeXml(opts.textColor)}" fill-opacity="0.15"/>`,
+        `<text x="${num(avatar.x + radius)}" y="${num(avatar.y + radius)}" text-anchor="middle" dominant-baseline="central" font-family="${escapeXml(layout.fontFamily)}" font-size="${num(Math.round(radius * 0.8))}" font-weight="bold" fill="${escapeXml(opts.textColor)}">${escapeXml(avatar.initials)}</text>`,
+      )
+    }
+    for (const line of lines) {
+      for (const run of line.runs) body.push(...runElements(run, opts))
+    }
+    body.push(`</g>`)
+  }
+  return { defs, body }
+}
+
+export function renderSvg(layout: CardLayout, opts: ImageOptions): string {
+  const { card } = layout
+  const background = backgroundElements(layout, opts)
+  const cardRect = `x="${num(card.x)}" y="${num(card.y)}" width="${num(card.width)}" height="${num(card.height)}" rx="${num(card.radius)}"`
+  const defs = [
+    `<filter id="card-shadow" x="-10%" y="-10%" width="120%" height="130%"><feDropShadow dx="0" dy="10" stdDeviation="10" flood-color="#000000" flood-opacity="0.1"/></filter>`,
+    `<clipPath id="card-clip"><rect ${cardRect}/></clipPath>`,
+    ...background.defs,
+  ]
+  const body: string[] = [...background.body]
+  if (opts.cardStyle === "glass") {
+    defs.push(`<filter id="glass-blur"><feGaussianBlur stdDeviation="${GLASS_BLUR}"/></filter>`)
+    body.push(
+      `<g clip-path="url(#card-clip)"><use href="#background" filter="url(#glass-blur)"/></g>`,
+      `<rect ${cardRect} fill="${escapeXml(opts.cardColor || "#EFE3CF")}" fill-opacity="${GLASS_OPACITY}"/>`,
+    )
+  } else {
+    body.push(`<rect ${cardRect} fill="${escapeXml(opts.cardColor || "#EFE3CF")}" filter="url(#card-shadow)"/>`)
+  }
+  body.push(`<g id="chrome" clip-path="url(#card-clip)">${chromeShapesSvg(layout.chrome)}</g>`)
+  if (layout.logo) {
+    const { logo } = layout
+    body.push(
+      `<image id="logo" href="${escapeXml(logo.src)}" x="${num(logo.x)}" y="${num(logo.y)}" width="${num(logo.width)}" height="${num(logo.height)}" preserveAspectRatio="xMidYMid meet" opacity="${num(logo.opacity)}"/>`,
+    )
+  }
+
+  const content = cardContentSvg(layout, opts)
+  defs.push(...content.defs)
+  body.push(...content.body)
+
+  if (layout.pageLabel) {
+    const label = layout.pageLabel
+    body.push(
+      `<text x="${num(label.x)}" y="${num(label.baseline)}" text-anchor="end" font-family="${escapeXml(layout.fontFamily)}" font-size="${num(label.size)}" fill="${escapeXml(opts.textColor)}" fill-opacity="0.6">${escapeXml(label.text)}</text>`,
+    )
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(layout.width)}" height="${num(layout.height)}" viewBox="0 0 ${num(layout.width)} ${num(layout.height)}">`,
+    `<defs>${defs.join("")}</defs>`,
+    ...body,
+    `</svg>`,
+  ].join("\n")
+}
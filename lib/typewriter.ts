@@ -0,0 +1,117 @@
+import { GIFEncoder, applyPalette, quantize } from "gifenc"
+import type { CanvasLike } from "./canvas"
+
+// Typewriter animation: the card's text appears one character (grapheme) at a time behind a caret,
+// then the finished card holds while the caret blinks. ImageGenerator paints each frame from one
+// fixed layout, so lines never reflow as they fill in; this module plans the frames and encodes them.
+
+export interface TypewriterOptions {
+  format: "gif" | "webm"
+  // Characters revealed per second
+  speed: number
+  // Seconds the finished card stays on screen
+  hold: number
+  // Total seconds including the hold; when set it overrides speed
+  duration?: number
+  // Frames per second while typing
+  fps: number
+}
+
+export const defaultTypewriterOptions: TypewriterOptions = {
+  format: "gif",
+  speed: 24,
+  hold: 2,
+  fps: 20,
+}
+
+// Half a blink cycle, as in most text editors
+const CARET_BLINK_MS = 530
+
+export interface TypewriterFrame {
+  // Characters of the card's text that are visible
+  visible: number
+  caret: boolean
+  // Milliseconds the frame stays on screen
+  duration: number
+}
+
+// Frames for revealing `total` characters. Identical consecutive frames are merged into one longer
+// frame, which keeps GIFs small: the hold is a handful of caret blinks, not hundreds of copies.
+export function planTypewriterFrames(total: number, options: TypewriterOptions): TypewriterFrame[] {
+  const typing = options.duration !== undefined ? Math.max(0, options.duration - options.hold) : total / options.speed
+  const frameMs = 1000 / options.fps
+  const typingFrames = total > 0 ? Math.max(1, Math.round((typing * 1000) / frameMs)) : 0
+  const frames: TypewriterFrame[] = []
+  const push = (frame: TypewriterFrame) => {
+    const last = frames[frames.length - 1]
+    if (last && last.visible === frame.visible && last.caret === frame.caret) last.duration += frame.duration
+    else frames.push(frame)
+  }
+  // The caret stays solid while typing, like a real cursor that is moving
+  for (let i = 0; i < typingFrames; i++) {
+    push({ visible: Math.round(((i + 1) / typingFrames) * total), caret: true, duration: frameMs })
+  }
+  let remaining = options.hold * 1000
+  for (let caret = false; remaining > 0; caret = !caret) {
+    const duration = Math.min(CARET_BLINK_MS, remaining)
+    push({ visible: total, caret, duration })
+    remaining -= duration
+  }
+  return frames
+}
+
+// Animated GIF. Every frame is reduced to the palette of the finished card (with caret), which holds
+// every color the animation uses, so colors never shift between frames.
+export function encodeGif(
+  frames: TypewriterFrame[],
+  paint: (frame: TypewriterFrame) => void,
+  readPixels: () => { data: Uint8ClampedArray; width: number; height: number },
+): Uint8Array {
+  paint({ visible: Number.MAX_SAFE_INTEGER, caret: true, duration: 0 })
+  const palette = quantize(readPixels().data, 256)
+  const gif = GIFEncoder()
+  frames.forEach((frame, i) => {
+    paint(frame)
+    const { data, width, height } = readPixels()
+    // GIF delays are in centiseconds; gifenc takes milliseconds and rounds
+    gif.writeFrame(applyPalette(data, palette), width, height, { palette: i === 0 ? palette : undefined, delay: frame.duration })
+  })
+  gif.finish()
+  return gif.bytes()
+}
+
+// WebM through MediaRecorder, so browser only. Frames are pushed to the stream by hand and held for
+// their duration in real time, which makes recording take as long as the animation. Server canvases
+// have no captureStream and are refused.
+export async function recordWebm(
+  canvas: CanvasLike & Partial<Pick<HTMLCanvasElement, "captureStream">>,
+  frames: TypewriterFrame[],
+  paint: (frame: TypewriterFrame) => void,
+): Promise<Blob> {
+  if (typeof MediaRecorder === "undefined" || typeof canvas.captureStream !== "function") {
+    throw new Error("WebM export needs a browser with MediaRecorder")
+  }
+  const stream = canvas.captureStream(0)
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+  const mimeType = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((type) =>
+    MediaRecorder.isTypeSupported(type),
+  )
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve()
+  })
+  recorder.start()
+  for (const frame of frames) {
+    paint(frame)
+    track.requestFrame()
+    await new Promise((resolve) => setTimeout(resolve, frame.duration))
+  }
+  recorder.stop()
+  track.stop()
+  await stopped
+  return new Blob(chunks, { type: "video/webm" })
+}
@@ -9,6 +9,11 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // Native canvas used by /api/render and the SQLite history store (which loads its .wasm from
+    // node_modules) must not be bundled by webpack
+    serverComponentsExternalPackages: ["@napi-rs/canvas", "sql.js"],
+  },
 }
 
 export default nextConfig
@@ -0,0 +1,32 @@
+// gifenc ships without type declarations; these cover the parts lib/typewriter.ts uses
+declare module "gifenc" {
+  export type Palette = number[][]
+
+  export interface GIFEncoderStream {
+    writeFrame(
+      index: Uint8Array,
+      width: number,
+      height: number,
+      options?: {
+        palette?: Palette
+        // Milliseconds, rounded to the GIF's centiseconds
+        delay?: number
+        // -1 plays once, 0 loops forever, n loops n times
+        repeat?: number
+        transparent?: boolean
+        transparentIndex?: number
+        dispose?: number
+      },
+    ): void
+    finish(): void
+    bytes(): Uint8Array
+  }
+
+  export function GIFEncoder(options?: { initialCapacity?: number; auto?: boolean }): GIFEncoderStream
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: "rgb565" | "rgb444" | "rgba4444"; oneBitAlpha?: boolean | number },
+  ): Palette
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: string): Uint8Array
+}